@@ -6,7 +6,15 @@
  * LICENSE file in the root directory of this source tree.
  */
 
-import { App, Plugin, PluginSettingTab, Setting, TFile, Notice, WorkspaceLeaf, ItemView, Modal } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, TFile, TFolder, Notice, WorkspaceLeaf, ItemView, ViewStateResult, Modal, FuzzySuggestModal, TextComponent, CachedMetadata, moment, debounce, setIcon, loadPdfJs, getAllTags, prepareFuzzySearch, prepareSimpleSearch, renderMatches, SearchResult, Keymap, normalizePath } from 'obsidian';
+import { QueryNode, QuerySyntaxError, QueryFileInfo, normalizeTag, tagMatches, matchesPropertyFilter, parseQuery, evaluateQuery } from './query';
+
+type DateSource = 'frontmatter' | 'filename' | 'file';
+type CalendarAxis = 'created' | 'modified' | 'both';
+type CalendarViewType = 'month' | 'week' | 'day' | 'year' | 'decade' | 'agenda' | 'onThisDay';
+type YearViewMode = 'list' | 'heatmap';
+type WeekNumberMode = 'none' | 'iso' | 'locale';
+type MonthLayout = 'compact' | 'detailed';
 
 interface NoteDatesSettings {
 	showCreationDate: boolean;
@@ -15,10 +23,63 @@ interface NoteDatesSettings {
 	enableCalendarView: boolean;
 	calendarFirstDayOfWeek: number;
 		showFileCount: boolean;
-	calendarViewType: 'month' | 'year';
+	calendarViewType: CalendarViewType;
+	yearViewMode: YearViewMode;
+	onThisDayReminder: boolean;
+	weekNumbers: WeekNumberMode;
+	monthLayout: MonthLayout;
+	monthCellTitleCount: number;
+	previewLength: number;
+	previewSkipFrontmatter: boolean;
 	sortOrder: 'desc' | 'asc';
 	showSubdirectoryStats: boolean;
 	language: 'en' | 'zh';
+	dateProperties: string[];
+	datePropertyFormats: string[];
+	dateFallback: 'mtime' | 'ctime';
+	modifiedDateProperties: string[];
+	filenameDatePatterns: string[];
+	dateSourceOrder: DateSource[];
+	calendarAxis: CalendarAxis;
+	trackEditHistory: boolean;
+	editHistoryRetentionDays: number;
+	showMentions: boolean;
+	mentionPattern: string;
+	includedFileTypes: string[];
+	includedFolders: string[];
+	excludedFolders: string[];
+	tagColors: TagColor[];
+	sources: CalendarSource[];
+	savedQueries: SavedQuery[];
+	newNoteFolder: string;
+	newNoteFileNamePattern: string;
+	newNoteTemplate: string;
+}
+
+// Month cells show a dot in `color` on days with notes tagged `tag` (or a nested tag below it)
+interface TagColor {
+	tag: string;
+	color: string;
+}
+
+type TagFilterMode = 'any' | 'all';
+
+interface SavedQuery {
+	name: string;
+	query: string;
+}
+
+type CalendarSourceKind = 'folder' | 'tag' | 'property' | 'filename';
+
+// A named stream of notes (journal, meetings, ...) drawn in its own color. `match` is a folder path or glob,
+// a tag, a `key=value` (or just `key`) frontmatter property, or a file name glob depending on `kind`.
+interface CalendarSource {
+	// Stays the same when the source is renamed; calendars hide sources by id
+	id: string;
+	name: string;
+	color: string;
+	kind: CalendarSourceKind;
+	match: string;
 }
 
 // Localization helper function
@@ -67,6 +128,73 @@ function getLocalizedText(key: string, language: 'en' | 'zh'): string {
 		'currentView': { en: 'Current', zh: '当前' },
 		'yearToMonth': { en: '⊞', zh: '⊞' },
 		'monthToYear': { en: '⊟', zh: '⊟' },
+		'monthToWeek': { en: '▤', zh: '▤' },
+		'weekToDay': { en: '▥', zh: '▥' },
+		'dayToAgenda': { en: '≡', zh: '≡' },
+		'agendaToDecade': { en: '⊟', zh: '⊟' },
+		'agendaView': { en: 'Agenda', zh: '日程' },
+		'moreNotes': { en: '+{count} more', zh: '还有 {count} 篇' },
+		'scopeWholeVault': { en: 'Whole vault', zh: '整个库' },
+		'scopeTooltip': { en: 'Limit this calendar to a folder', zh: '将此日历限定在一个文件夹' },
+		'showFolderInCalendar': { en: 'Show this folder in calendar', zh: '在日历中显示此文件夹' },
+		'sourceLegendTooltip': { en: 'Show or hide the notes of {name}', zh: '显示或隐藏 {name} 的笔记' },
+		'sourceDotTooltip': { en: '{name}: {count}', zh: '{name}：{count}' },
+		'queryTooltip': { en: 'Filter with a query', zh: '使用查询筛选' },
+		'queryPlaceholder': { en: 'path:"Work/" AND (tag:#meeting OR prop:type=review) -path:Templates', zh: 'path:"Work/" AND (tag:#meeting OR prop:type=review) -path:Templates' },
+		'savedQueries': { en: 'Saved queries', zh: '已保存的查询' },
+		'saveQueryTooltip': { en: 'Save this query', zh: '保存此查询' },
+		'saveQueryTitle': { en: 'Save query', zh: '保存查询' },
+		'saveQueryName': { en: 'Name', zh: '名称' },
+		'save': { en: 'Save', zh: '保存' },
+		'querySaved': { en: 'Query saved:', zh: '查询已保存：' },
+		'clearQueryTooltip': { en: 'Clear the query', zh: '清除查询' },
+		'queryErrorUnexpectedEnd': { en: 'The query ends too early', zh: '查询意外结束' },
+		'queryErrorUnexpectedToken': { en: 'Unexpected "{token}"', zh: '意外的 "{token}"' },
+		'queryErrorUnknownField': { en: 'Unknown field "{token}" (use path, tag, prop, name or ext)', zh: '未知字段 "{token}"（可用 path、tag、prop、name、ext）' },
+		'queryErrorEmptyValue': { en: 'Missing value in "{token}"', zh: '"{token}" 缺少值' },
+		'queryErrorUnclosedQuote': { en: 'Missing closing quote', zh: '缺少右引号' },
+		'queryErrorUnclosedParen': { en: 'Missing closing parenthesis', zh: '缺少右括号' },
+		'queryErrorPosition': { en: '{message} at character {position}', zh: '{message}（第 {position} 个字符）' },
+		'searchPlaceholder': { en: 'Search...', zh: '搜索...' },
+		'searchTooltip': { en: 'Filter this calendar by title and path', zh: '按标题和路径筛选此日历' },
+		'searchContentTooltip': { en: 'Also search note contents', zh: '同时搜索笔记内容' },
+		'tagFilterTooltip': { en: 'Filter by tag', zh: '按标签筛选' },
+		'tagFilterAny': { en: 'Any', zh: '任一' },
+		'tagFilterAll': { en: 'All', zh: '全部' },
+		'tagFilterModeTooltip': { en: 'Show notes with any / all of these tags', zh: '显示带有任一/全部这些标签的笔记' },
+		'tagFilterRemove': { en: 'Remove this tag from the filter', zh: '从筛选中移除此标签' },
+		'tagFilterClear': { en: 'Clear', zh: '清除' },
+		'chooseTagPlaceholder': { en: 'Choose a tag...', zh: '选择标签...' },
+		'weekNumberHeader': { en: 'Wk', zh: '周' },
+		'weekNumberTooltip': { en: 'Week {week}, {year} - click for week view', zh: '{year} 年第 {week} 周 - 点击打开周视图' },
+		'onThisDayToDecade': { en: '⊟', zh: '⊟' },
+		'onThisDayView': { en: 'On This Day', zh: '历年今日' },
+		'onThisDayYearsAgo': { en: '{years} year(s) ago', zh: '{years} 年前' },
+		'noNotesOnThisDay': { en: 'Nothing from this day in previous years', zh: '往年的这一天没有笔记' },
+		'onThisDayReminder': { en: 'On this day: {count} note(s) from previous years', zh: '历年今日：往年有 {count} 篇笔记' },
+		'agendaToday': { en: 'Today', zh: '今天' },
+		'agendaJumpTooltip': { en: 'Jump to date', zh: '跳转到日期' },
+		'agendaEnd': { en: 'No older notes', zh: '没有更早的笔记' },
+		'decadeToYear': { en: '⊞', zh: '⊞' },
+		'decadeView': { en: 'Decade View', zh: '十年视图' },
+		'decadeMonthTooltip': { en: '{month} {year}: {count} note(s)', zh: '{year}年{month}：{count} 篇笔记' },
+		'decadeYearTooltip': { en: 'Open {year}', zh: '打开 {year} 年' },
+		'jumpToFirstNote': { en: '⇤ First note', zh: '⇤ 最早的笔记' },
+		'jumpToFirstNoteTooltip': { en: 'Jump to the earliest dated note in the vault', zh: '跳转到库中最早的笔记' },
+		'noDatedNotes': { en: 'No dated notes found', zh: '没有找到带日期的笔记' },
+		'weekView': { en: 'Week View', zh: '周视图' },
+		'dayView': { en: 'Day View', zh: '日视图' },
+		'yearModeList': { en: '☰', zh: '☰' },
+		'yearModeHeatmap': { en: '▦', zh: '▦' },
+		'yearModeListName': { en: 'List', zh: '列表' },
+		'yearModeHeatmapName': { en: 'Heatmap', zh: '热力图' },
+		'yearModeTooltip': { en: 'Switch the year view between list and heatmap (Current: {current})', zh: '切换年视图的列表/热力图（当前：{current}）' },
+		'heatmapTooltip': { en: '{date}: {count} note(s)', zh: '{date}：{count} 篇笔记' },
+		'heatmapLess': { en: 'Less', zh: '少' },
+		'heatmapMore': { en: 'More', zh: '多' },
+		'allDay': { en: 'All day', zh: '全天' },
+		'noNotesThisDay': { en: 'No notes on this day', zh: '这一天没有笔记' },
+		'openDayViewTooltip': { en: 'Open day view', zh: '打开日视图' },
 		'switchViewTooltip': { en: 'Click to switch view (Current: {current})', zh: '点击切换视图 (当前: {current})' },
 		'newNote': { en: 'New Note', zh: '新建笔记' },
 		'newNoteTooltip': { en: 'Create new note with current timestamp', zh: '使用当前日期时间创建新笔记' },
@@ -76,8 +204,28 @@ function getLocalizedText(key: string, language: 'en' | 'zh'): string {
 		'timeAscTooltip': { en: 'Time Asc (Oldest first)', zh: '时间升序 (最旧在前)' },
 		'newNoteCreated': { en: 'New note created:', zh: '新建笔记:' },
 		'createNoteFailed': { en: 'Failed to create note:', zh: '创建笔记失败:' },
+		'newNoteNeedsDateProperty': { en: 'Set a Date Property in the settings to create notes for a day', zh: '请先在设置中填写日期属性, 才能为某一天创建笔记' },
+		'newNoteDateMismatch': { en: 'The new note would not be placed on its day; check the date property format and date source priority:', zh: '新笔记不会显示在该日期, 请检查日期属性格式和日期来源优先级:' },
+		'templateNotFound': { en: 'Template not found:', zh: '未找到模板:' },
+		'createNoteForDayTooltip': { en: 'Click to create a note for this day', zh: '点击为这一天新建笔记' },
+		'createNoteModTooltip': { en: 'Ctrl/Cmd-click to create a note for this day', zh: 'Ctrl/Cmd+点击为这一天新建笔记' },
 		'noNotesThisWeek': { en: 'No notes modified this week', zh: '没有笔记在本周修改' },
-		'yearNoNotes': { en: 'No notes in', zh: '没有笔记在' }
+		'yearNoNotes': { en: 'No notes in', zh: '没有笔记在' },
+		'axisCreated': { en: 'Created', zh: '创建' },
+		'axisModified': { en: 'Modified', zh: '修改' },
+		'axisBoth': { en: 'Both', zh: '全部' },
+		'axisTooltip': { en: 'Calendar axis: {axis} (click to switch)', zh: '日历依据: {axis} (点击切换)' },
+		'dayCountsTooltip': { en: '{created} created, {modified} modified', zh: '{created} 个创建，{modified} 个修改' },
+		'createdNotesHeading': { en: 'Created', zh: '创建的笔记' },
+		'modifiedNotesHeading': { en: 'Modified', zh: '修改的笔记' },
+		'mentionedNotesHeading': { en: 'Mentioned', zh: '提及的笔记' },
+		'mentionsTooltip': { en: '{count} note(s) mention this day', zh: '{count} 个笔记提及这一天' },
+		'canvasNodes': { en: '{count} nodes', zh: '{count} 个节点' },
+		'fileTypeNote': { en: 'Notes', zh: '笔记' },
+		'fileTypeCanvas': { en: 'Canvas', zh: '白板' },
+		'fileTypePdf': { en: 'PDF', zh: 'PDF' },
+		'fileTypeImage': { en: 'Images', zh: '图片' },
+		'fileTypeOther': { en: 'Other', zh: '其他' }
 	};
 
 	return texts[key]?.[language] || key;
@@ -101,6 +249,12 @@ function getMonthNames(language: 'en' | 'zh'): string[] {
 	];
 }
 
+// Get abbreviated month names (Jan, Feb... / 1月, 2月...)
+function getShortMonthNames(language: 'en' | 'zh'): string[] {
+	return getMonthNames(language).map((name, index) =>
+		language === 'en' ? name.substring(0, 3) : `${index + 1}月`);
+}
+
 // Get localized weekday names
 function getWeekdayNames(language: 'en' | 'zh'): string[] {
 	return [
@@ -114,6 +268,28 @@ function getWeekdayNames(language: 'en' | 'zh'): string[] {
 	];
 }
 
+const FULL_WEEKDAY_NAMES: { [lang: string]: string[] } = {
+	en: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+	zh: ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六']
+};
+
+// Fill {{date}}, {{time}}, {{weekday}} and {{title}} in a new note's template; {{date:FORMAT}} and
+// {{time:FORMAT}} take a moment.js format
+function fillNoteTemplate(template: string, date: Date, title: string, language: 'en' | 'zh'): string {
+	return template.replace(/{{\s*(date|time|weekday|title)(?::([^}]*))?\s*}}/gi, (_, name: string, format?: string) => {
+		switch (name.toLowerCase()) {
+			case 'date':
+				return moment(date).format(format?.trim() || 'YYYY-MM-DD');
+			case 'time':
+				return moment(date).format(format?.trim() || 'HH:mm');
+			case 'weekday':
+				return FULL_WEEKDAY_NAMES[language][date.getDay()];
+			default:
+				return title;
+		}
+	});
+}
+
 // Format file count text with localization
 function formatFileCountText(totalFiles: number, totalNotes: number, language: 'en' | 'zh'): string {
 	// Fixed to always use English format
@@ -142,253 +318,1340 @@ const DEFAULT_SETTINGS: NoteDatesSettings = {
 	calendarFirstDayOfWeek: 0, // 0 = Sunday, 1 = Monday
 	showFileCount: true,
 	calendarViewType: 'year',
+	yearViewMode: 'list',
+	onThisDayReminder: false,
+	weekNumbers: 'none',
+	monthLayout: 'compact',
+	monthCellTitleCount: 3,
+	previewLength: 100,
+	previewSkipFrontmatter: true,
 	sortOrder: 'desc', // Default to newest first
 	showSubdirectoryStats: true,
-	language: 'zh' // Default to Chinese
+	language: 'zh', // Default to Chinese
+	dateProperties: ['date', 'created'],
+	datePropertyFormats: ['YYYY-MM-DD', 'YYYY-MM-DDTHH:mm', 'YYYY-MM-DDTHH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY/MM/DD'],
+	dateFallback: 'mtime', // Used when no other date source matches
+	modifiedDateProperties: ['updated', 'modified'],
+	filenameDatePatterns: ['YYYY-MM-DD-HHmmss', 'YYYY-MM-DD', 'YYYY/MM/DD/', 'YYYYMMDD'],
+	dateSourceOrder: ['frontmatter', 'filename', 'file'],
+	calendarAxis: 'created', // With the mtime date fallback, notes stay where they were placed before the axis existed
+	trackEditHistory: true,
+	editHistoryRetentionDays: 365, // 0 keeps the history forever
+	showMentions: true,
+	mentionPattern: '(?:📅|@)\\s?(\\d{4}-\\d{2}-\\d{2})',
+	includedFileTypes: ['md'], // File extensions shown in the calendar
+	includedFolders: [], // Empty means the whole vault
+	excludedFolders: [],
+	tagColors: [],
+	sources: [],
+	savedQueries: [],
+	newNoteFolder: '', // Vault root
+	newNoteFileNamePattern: 'YYYY-MM-DD-HHmmss',
+	newNoteTemplate: ''
 }
 
 const CALENDAR_VIEW_TYPE = "notes-calendar-view";
 
-class NotesDatesPlugin extends Plugin {
-	settings: NoteDatesSettings;
-	private lastLanguage: 'en' | 'zh' = 'zh'; // Track last language to detect changes
+// Day view geometry: pixel height of one hour on the axis and of one note entry
+const DAY_VIEW_HOUR_HEIGHT = 48;
+const DAY_VIEW_ENTRY_HEIGHT = 40;
 
-	async onload() {
-		await this.loadSettings();
+// Agenda view: days rendered per batch and distance from the bottom (px) that loads the next batch
+const AGENDA_BATCH_DAYS = 14;
+const AGENDA_LOAD_THRESHOLD = 200;
 
-		// Add CSS styles for consistent button sizes
-		this.addCalendarStyles();
+// Number of files whose preview text is kept in memory
+const PREVIEW_CACHE_SIZE = 500;
 
-		// Add file explorer hooks for date display
-		this.registerEvent(
-			this.app.vault.on('create', (file) => {
-				if (file instanceof TFile) {
-					this.updateFileDisplay(file);
-				}
-			})
-		);
+// Year timeline row heights (px) and how far beyond the visible area rows are rendered
+const YEAR_HEADER_ROW_HEIGHT = 36;
+const YEAR_NOTE_ROW_HEIGHT = 112;
+const YEAR_OVERSCAN_PX = 600;
 
-		this.registerEvent(
-			this.app.vault.on('modify', (file) => {
-				if (file instanceof TFile) {
-					this.updateFileDisplay(file);
-				}
-			})
-		);
+// Below this pane width (px) the detailed month layout falls back to compact cells
+const DETAILED_MONTH_MIN_WIDTH = 560;
 
-		// Add command to toggle sorting
-		this.addCommand({
-			id: 'toggle-sort-by-modified',
-			name: 'Toggle Sort by Modification Date',
-			callback: () => {
-				this.toggleSortByModified();
-			}
-		});
+// Order in which the view switcher button steps through the view types
+const CALENDAR_VIEW_CYCLE: CalendarViewType[] = ['decade', 'year', 'month', 'week', 'day', 'agenda'];
+// Every view type, including those only reachable from commands
+const CALENDAR_VIEW_TYPES: CalendarViewType[] = [...CALENDAR_VIEW_CYCLE, 'onThisDay'];
 
-		// Add command to open calendar view
-		this.addCommand({
-			id: 'open-calendar-view',
-			name: 'Open Calendar View',
-			callback: () => {
-				this.activateCalendarView();
-			}
-		});
+// Parse a frontmatter date value with the configured formats, falling back to ISO 8601
+function parseDatePropertyValue(value: unknown, formats: string[]): Date | null {
+	if (Array.isArray(value)) {
+		return value.length > 0 ? parseDatePropertyValue(value[0], formats) : null;
+	}
+	if (typeof value !== 'string' || value.trim().length === 0) {
+		return null;
+	}
 
-		// Register calendar view
-		this.registerView(
-			CALENDAR_VIEW_TYPE,
-			(leaf) => new CalendarView(leaf, this)
-		);
+	const text = value.trim();
+	const parsed = formats.length > 0 ? moment(text, formats, true) : null;
+	if (parsed && parsed.isValid()) {
+		return parsed.toDate();
+	}
 
-		// Add ribbon icon for calendar
-		this.addRibbonIcon('calendar-days', 'Open Notes Calendar', () => {
-			this.activateCalendarView();
-		});
+	const iso = moment(text, moment.ISO_8601, true);
+	return iso.isValid() ? iso.toDate() : null;
+}
 
-		// Initialize file display
-		this.updateAllFilesDisplay();
+interface FilenameDateMatcher {
+	regex: RegExp;
+	tokens: string[];
+}
 
-		// Add file click listeners for calendar jumping and watch for DOM changes
-		this.setupFileClickListeners();
+const FILENAME_DATE_TOKENS: { [token: string]: string } = {
+	'YYYY': '(\\d{4})',
+	'MM': '(\\d{2})',
+	'DD': '(\\d{2})',
+	'HH': '(\\d{2})',
+	'mm': '(\\d{2})',
+	'ss': '(\\d{2})'
+};
+
+// Turn a pattern such as YYYY-MM-DD or YYYY/MM/DD/ into a regex over the file path.
+// Digits directly around the match are rejected so YYYYMMDD doesn't match inside longer numbers.
+function compileFilenameDatePattern(pattern: string): FilenameDateMatcher | null {
+	const tokens: string[] = [];
+	let source = '';
+	let rest = pattern;
+
+	while (rest.length > 0) {
+		const token = Object.keys(FILENAME_DATE_TOKENS).find(key => rest.startsWith(key));
+		if (token) {
+			tokens.push(token);
+			source += FILENAME_DATE_TOKENS[token];
+			rest = rest.slice(token.length);
+		} else {
+			source += rest[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			rest = rest.slice(1);
+		}
+	}
 
-		// Add settings tab
-		this.addSettingTab(new NotesDatesSettingTab(this.app, this));
+	if (!tokens.includes('YYYY') || !tokens.includes('MM') || !tokens.includes('DD')) {
+		return null;
 	}
 
-	addCalendarStyles() {
-		// Create style element for consistent button sizes
-		const style = document.createElement('style');
-		style.textContent = `
-			.calendar-controls button,
-			.view-switcher-btn,
-			.new-note-button,
-			.sort-button {
-				min-width: 28px;
-				height: 28px;
-				padding: 2px 6px;
-				font-size: 14px;
-				border: 1px solid var(--background-modifier-border);
-				border-radius: 4px;
-				background-color: var(--interactive-normal);
-				color: var(--text-normal);
-				cursor: pointer;
-				display: inline-flex;
-				align-items: center;
-				justify-content: flex-start;
-				transition: background-color 0.2s ease;
-			}
+	return { regex: new RegExp(`(?<!\\d)${source}(?!\\d)`, 'g'), tokens };
+}
 
-			.calendar-controls button:hover,
-			.view-switcher-btn:hover,
-			.new-note-button:hover,
-			.sort-button:hover {
-				background-color: var(--interactive-hover);
-			}
+// Extract a date from a file path using the first pattern that matches.
+// When a pattern occurs several times, the occurrence closest to the file name wins.
+function extractDateFromPath(path: string, matchers: FilenameDateMatcher[]): Date | null {
+	const target = path.replace(/\.[^/.]+$/, '');
+
+	for (const matcher of matchers) {
+		matcher.regex.lastIndex = 0;
+		const matches = Array.from(target.matchAll(matcher.regex));
+		for (let i = matches.length - 1; i >= 0; i--) {
+			const parts: { [token: string]: number } = { 'HH': 0, 'mm': 0, 'ss': 0 };
+			matcher.tokens.forEach((token, index) => {
+				parts[token] = parseInt(matches[i][index + 1], 10);
+			});
 
-			.calendar-controls button:active,
-			.view-switcher-btn:active,
-			.new-note-button:active,
-			.sort-button:active {
-				background-color: var(--interactive-active);
+			const date = new Date(parts['YYYY'], parts['MM'] - 1, parts['DD'], parts['HH'], parts['mm'], parts['ss']);
+			// Reject impossible dates such as 2024-02-31 instead of letting them roll over
+			if (date.getFullYear() === parts['YYYY'] &&
+				date.getMonth() === parts['MM'] - 1 &&
+				date.getDate() === parts['DD'] &&
+				parts['HH'] < 24 && parts['mm'] < 60 && parts['ss'] < 60) {
+				return date;
 			}
+		}
+	}
 
-			/* Ensure consistent spacing and left alignment */
-			.calendar-controls {
-				display: flex;
-				align-items: center;
-				gap: 4px;
-				margin-bottom: 12px;
-				justify-content: flex-start;
-			}
+	return null;
+}
 
-			.view-selector-single {
-				/* Removed margin-left: auto to align all buttons to the left */
-			}
+// Split a comma separated settings field into trimmed, non-empty entries
+function parseListSetting(value: string): string[] {
+	return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
 
-			/* Make icons even smaller */
-			.calendar-controls button,
-			.view-switcher-btn,
-			.new-note-button {
-				font-size: 14px;
-				font-weight: normal;
-				padding: 2px 6px;
-				min-width: 28px;
-				height: 28px;
-			}
+// A folder scoping rule: a plain folder path covers its whole subtree, while an entry
+// with * or ? is a glob (** crosses folders) matched against a file's path and parent folders
+type FolderRule = { folder: string } | { glob: RegExp };
 
-			/* Special sizing for text buttons */
-			.sort-button {
-				font-size: 10px;
-				padding: 2px 4px;
-				min-width: 28px;
-				height: 28px;
-			}
+function compileFolderRule(entry: string): FolderRule {
+	const normalized = entry.trim().replace(/^\/+|\/+$/g, '');
+	if (!/[*?]/.test(normalized)) {
+		return { folder: normalized };
+	}
 
-			/* File highlighting styles */
-			.file-scroll-highlight {
-				background-color: var(--background-modifier-hover) !important;
-				border-left: 3px solid var(--interactive-accent) !important;
-				padding-left: 8px !important;
-				margin-left: -3px !important;
-				transition: all 0.3s ease;
-			}
+	const source = normalized.split(/(\*\*\/?|\*|\?)/).map(part => {
+		switch (part) {
+			case '**/':
+				return '(?:.*/)?';
+			case '**':
+				return '.*';
+			case '*':
+				return '[^/]*';
+			case '?':
+				return '[^/]';
+			default:
+				return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}).join('');
+	return { glob: new RegExp(`^${source}$`) };
+}
 
-			.file-click-highlight {
-				background-color: var(--background-modifier-hover) !important;
-				border-left: 3px solid var(--interactive-accent-hue) !important;
-				padding-left: 8px !important;
-				margin-left: -3px !important;
-				box-shadow: 0 0 8px rgba(var(--interactive-accent-rgb), 0.3) !important;
-				transition: all 0.2s ease;
-			}
+function matchesFolderRule(path: string, rule: FolderRule): boolean {
+	if ('folder' in rule) {
+		return rule.folder === '' || path.startsWith(`${rule.folder}/`);
+	}
 
-			.year-view-file-highlight {
-				background-color: var(--interactive-accent) !important;
-				color: var(--text-on-accent) !important;
-				border-radius: 4px !important;
-				box-shadow: 0 0 10px rgba(var(--interactive-accent-rgb), 0.5) !important;
-				animation: year-view-highlight-pulse 2s ease-in-out !important;
-			}
+	// Test the path itself and every parent folder, so "**/_attachments" covers the files inside
+	const parts = path.split('/');
+	for (let i = parts.length; i > 0; i--) {
+		if (rule.glob.test(parts.slice(0, i).join('/'))) {
+			return true;
+		}
+	}
+	return false;
+}
 
-			@keyframes year-view-highlight-pulse {
-				0% { transform: scale(1); }
-				50% { transform: scale(1.02); }
-				100% { transform: scale(1); }
-			}
+type FileCategory = 'note' | 'canvas' | 'pdf' | 'image' | 'other';
 
-			/* Year view layout styles */
-			.year-view-timeline-container {
-				display: flex;
-				flex-direction: column;
-				height: 100%;
-				max-height: 100%;
-				margin-top: 0; /* Remove margin to be closer to header */
-			}
+const FILE_CATEGORY_ORDER: FileCategory[] = ['note', 'canvas', 'pdf', 'image', 'other'];
 
-			.year-month-timeline {
-				position: sticky;
-				top: 14px; /* Further reduce gap */
-				z-index: 15;
-				background-color: var(--background-primary);
-				border-bottom: 1px solid var(--background-modifier-border);
-				padding: 0px 0; /* Remove padding completely */
-				margin-top: 0; /* No margin */
-				flex-shrink: 0;
-			}
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'avif'];
 
-			.year-month-timeline-container {
-				display: flex;
-				justify-content: space-between;
-				align-items: center;
-				padding: 0 8px; /* Reduced padding */
-				gap: 2px; /* Reduced gap */
-			}
+function getFileCategory(file: TFile): FileCategory {
+	const extension = file.extension.toLowerCase();
+	if (extension === 'md') return 'note';
+	if (extension === 'canvas') return 'canvas';
+	if (extension === 'pdf') return 'pdf';
+	if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+	return 'other';
+}
 
-			.year-month-timeline-item {
-				display: flex;
-				flex-direction: column;
-				align-items: center;
-				padding: 6px 8px; /* Larger padding for bigger text */
-				border-radius: 4px;
-				cursor: pointer;
-				transition: all 0.2s ease;
-				min-width: 50px; /* Larger minimum width for bigger text */
-				background-color: var(--background-secondary);
-				border: 1px solid var(--background-modifier-border);
-				font-size: 12px; /* Larger font size */
-			}
+function getFileCategoryIcon(category: FileCategory): string {
+	switch (category) {
+		case 'note':
+			return 'file-text';
+		case 'canvas':
+			return 'layout-dashboard';
+		case 'pdf':
+			return 'book-open';
+		case 'image':
+			return 'image';
+		case 'other':
+			return 'paperclip';
+	}
+}
 
-			.year-month-timeline-item:hover {
-				background-color: var(--background-modifier-hover);
-				transform: translateY(-1px);
-			}
+// Prefix a timeline title with the icon of its file type
+function addFileTypeIcon(titleEl: HTMLElement, file: TFile) {
+	const category = getFileCategory(file);
+	const iconEl = titleEl.createSpan({ cls: `timeline-file-icon timeline-file-icon-${category}` });
+	setIcon(iconEl, getFileCategoryIcon(category));
+	titleEl.prepend(iconEl);
+}
 
-			.year-month-timeline-item.active {
-				background-color: var(--interactive-accent);
-				color: var(--text-on-accent);
-				border-color: var(--interactive-accent);
-			}
+function getFileCategoryLabel(category: FileCategory, language: 'en' | 'zh'): string {
+	const keys: { [key in FileCategory]: string } = {
+		note: 'fileTypeNote',
+		canvas: 'fileTypeCanvas',
+		pdf: 'fileTypePdf',
+		image: 'fileTypeImage',
+		other: 'fileTypeOther'
+	};
+	return getLocalizedText(keys[category], language);
+}
 
-			.year-month-timeline-item.has-notes {
-				border-color: var(--interactive-accent);
-				font-weight: 500;
-			}
+// Tags of a file from its body and frontmatter `tags`, each once and with a leading '#'
+function getFileTags(app: App, file: TFile): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	const tags = cache ? getAllTags(cache) || [] : [];
+	return Array.from(new Set(tags));
+}
 
-			.year-month-timeline-month {
-				font-size: 13px; /* Larger font */
-				font-weight: 500;
-				white-space: nowrap;
-				line-height: 1.2;
-			}
+function fileHasTag(app: App, file: TFile, filterTag: string): boolean {
+	return getFileTags(app, file).some(tag => tagMatches(tag, filterTag));
+}
 
-			.year-month-timeline-count {
-				font-size: 11px; /* Larger font for count */
-				opacity: 0.7;
-				margin-top: 2px;
-				line-height: 1.1;
-			}
+// File name globs of calendar sources, e.g. "*meeting*" or "Daily-????.md"; case-insensitive
+function compileNamePattern(pattern: string): RegExp {
+	const source = pattern.trim().split(/(\*|\?)/).map(part => {
+		switch (part) {
+			case '*':
+				return '.*';
+			case '?':
+				return '.';
+			default:
+				return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}).join('');
+	return new RegExp(`^${source}$`, 'i');
+}
 
-			/* Timeline should be the only scrollable area */
+function createSourceId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+// Build the test deciding whether a file belongs to a calendar source
+function compileCalendarSource(app: App, source: CalendarSource): (file: TFile) => boolean {
+	const match = source.match.trim();
+	if (!match) return () => false;
+
+	switch (source.kind) {
+		case 'folder': {
+			const rule = compileFolderRule(match);
+			return (file) => matchesFolderRule(file.path, rule);
+		}
+		case 'tag':
+			return (file) => fileHasTag(app, file, match);
+		case 'property':
+			return (file) => matchesPropertyFilter(app.metadataCache.getFileCache(file)?.frontmatter || null, match);
+		case 'filename': {
+			const pattern = compileNamePattern(match);
+			return (file) => pattern.test(file.name) || pattern.test(file.basename);
+		}
+	}
+}
+
+function formatQueryError(error: QuerySyntaxError, language: 'en' | 'zh'): string {
+	return getLocalizedText('queryErrorPosition', language)
+		.replace('{message}', getLocalizedText(error.key, language).replace('{token}', error.token))
+		.replace('{position}', (error.position + 1).toString());
+}
+
+function getQueryFileInfo(app: App, file: TFile): QueryFileInfo {
+	return {
+		path: file.path,
+		basename: file.basename,
+		extension: file.extension,
+		tags: getFileTags(app, file),
+		frontmatter: app.metadataCache.getFileCache(file)?.frontmatter || null
+	};
+}
+
+// Set `text` into `el`, marking the parts matched by a calendar search. Titles and paths are
+// matched fuzzily, previews word by word.
+function renderSearchHighlight(el: HTMLElement, text: string, query: string, fuzzy: boolean = true) {
+	const result = query ? (fuzzy ? prepareFuzzySearch(query) : prepareSimpleSearch(query))(text) : null;
+	if (result) {
+		el.empty();
+		renderMatches(el, text, result.matches);
+	} else {
+		el.setText(text);
+	}
+}
+
+// First meaningful line of a note with markdown formatting removed. With `skipFrontmatter`,
+// YAML frontmatter and callouts are skipped, using the metadata cache's sections when available.
+function getMarkdownPreview(content: string, cache: CachedMetadata | null, maxLength: number, skipFrontmatter: boolean): string | null {
+	let lines: string[] = [];
+	if (skipFrontmatter && cache?.sections) {
+		cache.sections
+			.filter(section => section.type !== 'yaml' && section.type !== 'callout')
+			.forEach(section => {
+				lines.push(...content.slice(section.position.start.offset, section.position.end.offset).split('\n'));
+			});
+	} else if (skipFrontmatter) {
+		lines = content.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/, '').split('\n')
+			.filter(line => !line.trim().startsWith('>'));
+	} else {
+		lines = content.split('\n');
+	}
+
+	const firstLine = lines.map(line => line.trim()).find(line => line.length > 0);
+	if (!firstLine) return null;
+
+	// Remove markdown formatting from the first line
+	const preview = firstLine
+		.replace(/^#+\s*/, '') // Remove headers
+		.replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
+		.replace(/\*(.*?)\*/g, '$1') // Remove italic
+		.replace(/`(.*?)`/g, '$1') // Remove inline code
+		.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
+		.slice(0, maxLength);
+	return preview.length > 0 ? preview : null;
+}
+
+// Previews shared by the calendar views and the date modal. Preview text is computed with
+// cachedRead, kept in a small LRU cache that is invalidated when a file changes, and only
+// loaded once the element it belongs to scrolls into view.
+class PreviewService {
+	private plugin: NotesDatesPlugin;
+	private cache: Map<string, Promise<string | null>> = new Map();
+	private pending: WeakMap<Element, { file: TFile; searchQuery: string }> = new WeakMap();
+	private observer: IntersectionObserver | null = null;
+
+	constructor(plugin: NotesDatesPlugin) {
+		this.plugin = plugin;
+		if (typeof IntersectionObserver !== 'undefined') {
+			this.observer = new IntersectionObserver(entries => {
+				entries.forEach(entry => {
+					const target = entry.target as HTMLElement;
+					// Rows of the windowed year view can be removed before they ever show up
+					if (!entry.isIntersecting && target.isConnected) return;
+					this.observer?.unobserve(target);
+					const pending = this.pending.get(target);
+					this.pending.delete(target);
+					if (pending && entry.isIntersecting) {
+						this.render(target, pending.file, pending.searchQuery);
+					}
+				});
+			}, { rootMargin: '200px 0px' });
+		}
+	}
+
+	// Add the preview of `file` to `container` once the container becomes visible,
+	// highlighting the words of `searchQuery`
+	attach(container: HTMLElement, file: TFile, searchQuery: string = '') {
+		if (!this.observer) {
+			this.render(container, file, searchQuery);
+			return;
+		}
+		this.pending.set(container, { file, searchQuery });
+		this.observer.observe(container);
+	}
+
+	invalidate(path: string) {
+		this.cache.delete(path);
+	}
+
+	clear() {
+		this.cache.clear();
+	}
+
+	disconnect() {
+		this.observer?.disconnect();
+		this.clear();
+	}
+
+	private async render(container: HTMLElement, file: TFile, searchQuery: string) {
+		// Images only need their resource URL
+		if (getFileCategory(file) === 'image') {
+			const thumbnail = container.createEl("img", { cls: "timeline-note-thumbnail" });
+			thumbnail.src = this.plugin.app.vault.getResourcePath(file);
+			thumbnail.alt = file.basename;
+			return;
+		}
+
+		const preview = await this.getPreview(file);
+		if (preview) {
+			renderSearchHighlight(container.createEl("div", { cls: "timeline-note-preview" }), preview, searchQuery, false);
+		}
+	}
+
+	private getPreview(file: TFile): Promise<string | null> {
+		const cached = this.cache.get(file.path);
+		if (cached) {
+			// Move to the most recently used end
+			this.cache.delete(file.path);
+			this.cache.set(file.path, cached);
+			return cached;
+		}
+
+		const preview = this.loadPreview(file);
+		this.cache.set(file.path, preview);
+		while (this.cache.size > PREVIEW_CACHE_SIZE) {
+			this.cache.delete(this.cache.keys().next().value);
+		}
+		return preview;
+	}
+
+	// Preview line for a note, the first text on the first page of a PDF, or the number of nodes on a canvas
+	private async loadPreview(file: TFile): Promise<string | null> {
+		const { app, settings } = this.plugin;
+		const maxLength = settings.previewLength;
+		if (maxLength <= 0) return null;
+
+		try {
+			switch (getFileCategory(file)) {
+				case 'note': {
+					const content = await app.vault.cachedRead(file);
+					return getMarkdownPreview(content, app.metadataCache.getFileCache(file), maxLength, settings.previewSkipFrontmatter);
+				}
+				case 'pdf': {
+					const pdfjs = await loadPdfJs();
+					const pdf = await pdfjs.getDocument({ data: new Uint8Array(await app.vault.readBinary(file)) }).promise;
+					try {
+						const page = await pdf.getPage(1);
+						const textContent = await page.getTextContent();
+						const firstLine = textContent.items
+							.map((item: { str?: string }) => (item.str || '').trim())
+							.find((text: string) => text.length > 0);
+						return firstLine ? firstLine.slice(0, maxLength) : null;
+					} finally {
+						pdf.destroy();
+					}
+				}
+				case 'canvas': {
+					const canvas = JSON.parse(await app.vault.cachedRead(file));
+					const nodeCount = Array.isArray(canvas.nodes) ? canvas.nodes.length : 0;
+					return getLocalizedText('canvasNodes', settings.language).replace('{count}', nodeCount.toString());
+				}
+				default:
+					return null;
+			}
+		} catch (error) {
+			// If the file can't be read, just don't show the preview
+			console.debug('Error reading file for preview:', file.path, error);
+			return null;
+		}
+	}
+}
+
+// Which of a note's dates an index entry represents
+type NoteDateKind = 'created' | 'modified' | 'mentioned';
+
+interface DatedNote {
+	file: TFile;
+	date: Date;
+	kind: NoteDateKind;
+}
+
+// Build the lookup key for a calendar day, e.g. 2024-05-03
+function getDayKey(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	// Padding the year keeps the keys in date order when sorted as strings
+	return `${String(date.getFullYear()).padStart(4, '0')}-${month}-${day}`;
+}
+
+function getMonthKey(year: number, month: number): string {
+	return `${String(year).padStart(4, '0')}-${String(month + 1).padStart(2, '0')}`;
+}
+
+// Date kinds shown for a calendar axis
+function getAxisKinds(axis: CalendarAxis): NoteDateKind[] {
+	switch (axis) {
+		case 'created':
+			return ['created'];
+		case 'modified':
+			return ['modified'];
+		case 'both':
+			return ['created', 'modified'];
+	}
+}
+
+// Place time-sorted day view entries side by side where their boxes would overlap:
+// each entry gets a column, and every entry in an overlapping cluster shares its column count
+function layoutDayViewEntries(notes: DatedNote[]): { note: DatedNote; column: number; columns: number }[] {
+	const entryMinutes = DAY_VIEW_ENTRY_HEIGHT / DAY_VIEW_HOUR_HEIGHT * 60;
+	const laidOut: { note: DatedNote; column: number; columns: number }[] = [];
+	let cluster: { note: DatedNote; column: number; columns: number }[] = [];
+	let columnEnds: number[] = [];
+	let clusterEnd = -1;
+
+	const closeCluster = () => {
+		cluster.forEach(entry => entry.columns = columnEnds.length);
+		laidOut.push(...cluster);
+		cluster = [];
+		columnEnds = [];
+	};
+
+	notes.forEach(note => {
+		const start = note.date.getHours() * 60 + note.date.getMinutes();
+		if (start >= clusterEnd) {
+			closeCluster();
+		}
+
+		let column = columnEnds.findIndex(end => end <= start);
+		if (column === -1) {
+			column = columnEnds.length;
+			columnEnds.push(0);
+		}
+		columnEnds[column] = start + entryMinutes;
+		clusterEnd = Math.max(clusterEnd, start + entryMinutes);
+		cluster.push({ note, column, columns: 1 });
+	});
+	closeCluster();
+
+	return laidOut;
+}
+
+// Week number of a calendar row starting on `rowStart`. ISO 8601 weeks start on Monday and
+// week 1 contains January 4th; locale weeks start on the configured first day and week 1
+// contains January 1st. The returned year is the week-year, which differs from the calendar
+// year around New Year (e.g. 2024-12-30 is in ISO week 1 of 2025).
+function getWeekNumber(rowStart: Date, mode: WeekNumberMode, firstDayOfWeek: number): { week: number; year: number } {
+	if (mode === 'iso') {
+		// The row's Monday decides its ISO week when rows start on Sunday
+		const monday = new Date(rowStart);
+		monday.setDate(monday.getDate() + (1 - firstDayOfWeek + 7) % 7);
+		return { week: moment(monday).isoWeek(), year: moment(monday).isoWeekYear() };
+	}
+
+	// A row that contains January 1st is week 1 of the new year
+	const rowEnd = new Date(rowStart.getFullYear(), rowStart.getMonth(), rowStart.getDate() + 6);
+	const year = rowEnd.getFullYear();
+	const jan1 = new Date(year, 0, 1);
+	const firstWeekStart = new Date(year, 0, 1 - (jan1.getDay() - firstDayOfWeek + 7) % 7);
+	const days = Math.round((Date.UTC(rowStart.getFullYear(), rowStart.getMonth(), rowStart.getDate()) -
+		Date.UTC(firstWeekStart.getFullYear(), firstWeekStart.getMonth(), firstWeekStart.getDate())) / 86400000);
+	return { week: Math.floor(days / 7) + 1, year };
+}
+
+// Day -> notes, month -> counts and year -> counts for a single date kind
+class DateBuckets {
+	notesByDay: Map<string, DatedNote[]> = new Map();
+	monthCounts: Map<string, number> = new Map();
+	yearCounts: Map<number, number> = new Map();
+
+	clear() {
+		this.notesByDay.clear();
+		this.monthCounts.clear();
+		this.yearCounts.clear();
+	}
+
+	add(entry: DatedNote) {
+		const dayKey = getDayKey(entry.date);
+		const dayNotes = this.notesByDay.get(dayKey);
+		if (dayNotes) {
+			dayNotes.push(entry);
+		} else {
+			this.notesByDay.set(dayKey, [entry]);
+		}
+		this.adjustCounts(entry.date, 1);
+	}
+
+	remove(entry: DatedNote) {
+		const dayKey = getDayKey(entry.date);
+		const remaining = (this.notesByDay.get(dayKey) || []).filter(note => note !== entry);
+		if (remaining.length > 0) {
+			this.notesByDay.set(dayKey, remaining);
+		} else {
+			this.notesByDay.delete(dayKey);
+		}
+		this.adjustCounts(entry.date, -1);
+	}
+
+	private adjustCounts(date: Date, delta: number) {
+		const monthKey = getMonthKey(date.getFullYear(), date.getMonth());
+		const monthCount = (this.monthCounts.get(monthKey) || 0) + delta;
+		if (monthCount > 0) {
+			this.monthCounts.set(monthKey, monthCount);
+		} else {
+			this.monthCounts.delete(monthKey);
+		}
+
+		const yearCount = (this.yearCounts.get(date.getFullYear()) || 0) + delta;
+		if (yearCount > 0) {
+			this.yearCounts.set(date.getFullYear(), yearCount);
+		} else {
+			this.yearCounts.delete(date.getFullYear());
+		}
+	}
+}
+
+// In-memory date index: day -> notes, month -> counts, year -> counts.
+// Built once when the workspace is ready and kept current from vault events,
+// so the calendar views never have to rescan the whole vault on render.
+class NoteDateIndex {
+	private plugin: NotesDatesPlugin;
+	private buckets: { [kind in NoteDateKind]: DateBuckets } = {
+		created: new DateBuckets(),
+		modified: new DateBuckets(),
+		mentioned: new DateBuckets()
+	};
+	private entriesByPath: Map<string, DatedNote[]> = new Map();
+	private built = false;
+
+	constructor(plugin: NotesDatesPlugin) {
+		this.plugin = plugin;
+	}
+
+	isBuilt(): boolean {
+		return this.built;
+	}
+
+	rebuild() {
+		Object.values(this.buckets).forEach(buckets => buckets.clear());
+		this.entriesByPath.clear();
+
+		this.plugin.app.vault.getFiles()
+			.filter(file => this.plugin.isCalendarFile(file))
+			.forEach(file => this.insert(file));
+		this.built = true;
+	}
+
+	ensureBuilt() {
+		if (!this.built) {
+			this.rebuild();
+		}
+	}
+
+	addFile(file: TFile) {
+		if (!this.built || !this.plugin.isCalendarFile(file)) return;
+		this.remove(file.path);
+		this.insert(file);
+	}
+
+	updateFile(file: TFile) {
+		this.addFile(file);
+	}
+
+	removeFile(path: string) {
+		if (!this.built) return;
+		this.remove(path);
+	}
+
+	renameFile(file: TFile, oldPath: string) {
+		if (!this.built) return;
+		this.remove(oldPath);
+		if (this.plugin.isCalendarFile(file)) {
+			this.insert(file);
+		}
+	}
+
+	getNotesForDay(year: number, month: number, day: number, kinds: NoteDateKind[]): DatedNote[] {
+		this.ensureBuilt();
+		const dayKey = getDayKey(new Date(year, month, day));
+		const notes: DatedNote[] = [];
+		kinds.forEach(kind => {
+			notes.push(...(this.buckets[kind].notesByDay.get(dayKey) || []));
+		});
+		return notes;
+	}
+
+	getNotesForMonth(year: number, month: number, kinds: NoteDateKind[]): DatedNote[] {
+		const daysInMonth = new Date(year, month + 1, 0).getDate();
+		return this.getNotesInRange(new Date(year, month, 1), new Date(year, month, daysInMonth), kinds);
+	}
+
+	// Collect notes for every day from start to end (both inclusive)
+	getNotesInRange(start: Date, end: Date, kinds: NoteDateKind[]): DatedNote[] {
+		this.ensureBuilt();
+		const notes: DatedNote[] = [];
+		const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+		const last = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+		while (cursor <= last) {
+			const dayKey = getDayKey(cursor);
+			kinds.forEach(kind => {
+				const dayNotes = this.buckets[kind].notesByDay.get(dayKey);
+				if (dayNotes) {
+					notes.push(...dayNotes);
+				}
+			});
+			cursor.setDate(cursor.getDate() + 1);
+		}
+		return notes;
+	}
+
+	getMonthCount(year: number, month: number, kinds: NoteDateKind[]): number {
+		this.ensureBuilt();
+		const monthKey = getMonthKey(year, month);
+		return kinds.reduce((total, kind) => total + (this.buckets[kind].monthCounts.get(monthKey) || 0), 0);
+	}
+
+	getYearCount(year: number, kinds: NoteDateKind[]): number {
+		this.ensureBuilt();
+		return kinds.reduce((total, kind) => total + (this.buckets[kind].yearCounts.get(year) || 0), 0);
+	}
+
+	// Notes on the same month and day in every year before `beforeYear`, newest year first
+	getNotesOnThisDay(month: number, day: number, beforeYear: number, kinds: NoteDateKind[]): { year: number; notes: DatedNote[] }[] {
+		const suffix = getDayKey(new Date(2000, month, day)).substring(4);
+		const years = new Set<number>();
+		this.getDayKeys(kinds).forEach(dayKey => {
+			const year = parseInt(dayKey.substring(0, 4), 10);
+			if (dayKey.endsWith(suffix) && year < beforeYear) {
+				years.add(year);
+			}
+		});
+
+		return Array.from(years)
+			.sort((a, b) => b - a)
+			.map(year => ({ year, notes: this.getNotesForDay(year, month, day, kinds) }));
+	}
+
+	// Keys of all days that have notes, oldest first
+	getDayKeys(kinds: NoteDateKind[]): string[] {
+		this.ensureBuilt();
+		const dayKeys = new Set<string>();
+		kinds.forEach(kind => {
+			this.buckets[kind].notesByDay.forEach((_, dayKey) => dayKeys.add(dayKey));
+		});
+		return Array.from(dayKeys).sort();
+	}
+
+	private insert(file: TFile) {
+		const entries: DatedNote[] = (['created', 'modified'] as NoteDateKind[]).map(kind => ({
+			file,
+			date: this.plugin.resolveNoteDate(file, kind),
+			kind
+		}));
+
+		// With edit history, a note is also "modified" on every earlier day it was edited
+		if (this.plugin.settings.trackEditHistory) {
+			const lastModifiedDay = getDayKey(entries[1].date);
+			this.plugin.activityLog.getEditTimes(file.path).forEach(time => {
+				const date = new Date(time);
+				if (getDayKey(date) !== lastModifiedDay) {
+					entries.push({ file, date, kind: 'modified' });
+				}
+			});
+		}
+
+		// Days referenced inside the note are kept as a separate category
+		if (this.plugin.settings.showMentions) {
+			this.plugin.mentionScanner.getMentions(file.path).forEach(date => {
+				entries.push({ file, date, kind: 'mentioned' });
+			});
+		}
+
+		entries.forEach(entry => this.buckets[entry.kind].add(entry));
+		this.entriesByPath.set(file.path, entries);
+	}
+
+	private remove(path: string) {
+		const entries = this.entriesByPath.get(path);
+		if (!entries) return;
+
+		entries.forEach(entry => this.buckets[entry.kind].remove(entry));
+		this.entriesByPath.delete(path);
+	}
+}
+
+// Persisted edit history: path -> timestamp of the first edit on each day it was edited
+type ActivityLogData = { [path: string]: number[] };
+
+class ActivityLog {
+	private plugin: NotesDatesPlugin;
+	private edits: ActivityLogData;
+	private lastPruneDay: string | null = null;
+
+	constructor(plugin: NotesDatesPlugin, data?: ActivityLogData) {
+		this.plugin = plugin;
+		this.edits = Object.assign({}, data);
+	}
+
+	toJSON(): ActivityLogData {
+		return this.edits;
+	}
+
+	getEditTimes(path: string): number[] {
+		return this.edits[path] || [];
+	}
+
+	// Record an edit; only the first edit of each day per file is kept.
+	// Returns true when the log changed.
+	recordEdit(file: TFile, time: number = Date.now()): boolean {
+		const today = getDayKey(new Date(time));
+		if (this.lastPruneDay !== today) {
+			this.lastPruneDay = today;
+			if (this.prune(time) && this.plugin.dateIndex.isBuilt()) {
+				this.plugin.dateIndex.rebuild();
+			}
+		}
+
+		const times = this.edits[file.path] || [];
+		if (times.length > 0 && getDayKey(new Date(times[times.length - 1])) === today) {
+			return false;
+		}
+
+		times.push(time);
+		this.edits[file.path] = times;
+		this.plugin.requestPluginDataSave();
+		return true;
+	}
+
+	renameFile(oldPath: string, newPath: string) {
+		const times = this.edits[oldPath];
+		if (!times) return;
+
+		delete this.edits[oldPath];
+		this.edits[newPath] = times;
+		this.plugin.requestPluginDataSave();
+	}
+
+	removeFile(path: string) {
+		if (!this.edits[path]) return;
+
+		delete this.edits[path];
+		this.plugin.requestPluginDataSave();
+	}
+
+	// Move the history of every note below a renamed folder
+	renameFolder(oldPath: string, newPath: string) {
+		Object.keys(this.edits)
+			.filter(path => path.startsWith(`${oldPath}/`))
+			.forEach(path => this.renameFile(path, newPath + path.slice(oldPath.length)));
+	}
+
+	removeFolder(folderPath: string) {
+		Object.keys(this.edits)
+			.filter(path => path.startsWith(`${folderPath}/`))
+			.forEach(path => this.removeFile(path));
+	}
+
+	// Drop entries older than the retention window. Returns true when anything was removed.
+	prune(now: number = Date.now()): boolean {
+		const retentionDays = this.plugin.settings.editHistoryRetentionDays;
+		if (!retentionDays || retentionDays <= 0) return false;
+
+		const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+		let changed = false;
+		Object.keys(this.edits).forEach(path => {
+			const kept = this.edits[path].filter(time => time >= cutoff);
+			if (kept.length === this.edits[path].length) return;
+
+			changed = true;
+			if (kept.length > 0) {
+				this.edits[path] = kept;
+			} else {
+				delete this.edits[path];
+			}
+		});
+
+		if (changed) {
+			this.plugin.requestPluginDataSave();
+		}
+		return changed;
+	}
+
+	clear() {
+		this.edits = {};
+		this.plugin.requestPluginDataSave();
+	}
+}
+
+// Finds the days a note refers to in its content: links to date-named notes such as
+// [[2024-05-03]] (from the metadata cache) and matches of the inline mention pattern
+class MentionScanner {
+	private plugin: NotesDatesPlugin;
+	private mentionsByPath: Map<string, Date[]> = new Map();
+
+	constructor(plugin: NotesDatesPlugin) {
+		this.plugin = plugin;
+	}
+
+	getMentions(path: string): Date[] {
+		return this.mentionsByPath.get(path) || [];
+	}
+
+	// Scan every note once; content is only read when an inline pattern is configured
+	async scanAll() {
+		this.mentionsByPath.clear();
+		const needsContent = this.getInlinePattern() !== null;
+
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			try {
+				const content = needsContent ? await this.plugin.app.vault.cachedRead(file) : '';
+				this.scan(file, content, this.plugin.app.metadataCache.getFileCache(file));
+			} catch (error) {
+				console.debug('Error scanning note for date mentions:', file.path, error);
+			}
+		}
+	}
+
+	scan(file: TFile, content: string, cache: CachedMetadata | null) {
+		const mentions: Map<string, Date> = new Map();
+		const addMention = (date: Date | null) => {
+			if (date) {
+				mentions.set(getDayKey(date), date);
+			}
+		};
+
+		// Links to date-named notes, e.g. [[2024-05-03]] or [[Daily/2024-05-03|May 3]]
+		const matchers = this.plugin.getFilenameDateMatchers();
+		(cache?.links || []).forEach(link => {
+			addMention(extractDateFromPath(link.link.split('#')[0], matchers));
+		});
+
+		// Inline mentions such as 📅 2024-05-03 or @2024-05-03
+		const pattern = this.getInlinePattern();
+		if (pattern && content) {
+			for (const match of Array.from(content.matchAll(pattern))) {
+				addMention(parseDatePropertyValue(match[1] ?? match[0], this.plugin.settings.datePropertyFormats));
+			}
+		}
+
+		if (mentions.size > 0) {
+			this.mentionsByPath.set(file.path, Array.from(mentions.values()));
+		} else {
+			this.mentionsByPath.delete(file.path);
+		}
+	}
+
+	renameFile(oldPath: string, newPath: string) {
+		const mentions = this.mentionsByPath.get(oldPath);
+		if (!mentions) return;
+
+		this.mentionsByPath.delete(oldPath);
+		this.mentionsByPath.set(newPath, mentions);
+	}
+
+	removeFile(path: string) {
+		this.mentionsByPath.delete(path);
+	}
+
+	renameFolder(oldPath: string, newPath: string) {
+		Array.from(this.mentionsByPath.keys())
+			.filter(path => path.startsWith(`${oldPath}/`))
+			.forEach(path => this.renameFile(path, newPath + path.slice(oldPath.length)));
+	}
+
+	removeFolder(folderPath: string) {
+		Array.from(this.mentionsByPath.keys())
+			.filter(path => path.startsWith(`${folderPath}/`))
+			.forEach(path => this.removeFile(path));
+	}
+
+	private getInlinePattern(): RegExp | null {
+		if (!this.plugin.settings.mentionPattern) return null;
+		try {
+			return new RegExp(this.plugin.settings.mentionPattern, 'gu');
+		} catch (error) {
+			console.debug('Invalid date mention pattern:', this.plugin.settings.mentionPattern, error);
+			return null;
+		}
+	}
+}
+
+class NotesDatesPlugin extends Plugin {
+	settings: NoteDatesSettings;
+	dateIndex: NoteDateIndex;
+	activityLog: ActivityLog;
+	mentionScanner: MentionScanner;
+	previews: PreviewService;
+	openDateModals: Set<DateNotesModal> = new Set();
+	private lastLanguage: 'en' | 'zh' = 'zh'; // Track last language to detect changes
+	private filenameDateMatchers: FilenameDateMatcher[] = [];
+	private filenameDateMatchersKey: string | null = null;
+	private folderRules: { included: FolderRule[]; excluded: FolderRule[] } = { included: [], excluded: [] };
+	private folderRulesKey: string | null = null;
+	private compiledSources: { source: CalendarSource; matches: (file: TFile) => boolean }[] = [];
+	private compiledSourcesKey: string | null = null;
+
+	async onload() {
+		await this.loadSettings();
+
+		// Date index shared by all calendar views
+		this.dateIndex = new NoteDateIndex(this);
+		this.mentionScanner = new MentionScanner(this);
+		this.previews = new PreviewService(this);
+		this.app.workspace.onLayoutReady(() => {
+			this.dateIndex.rebuild();
+			this.rescanMentions();
+			if (this.settings.onThisDayReminder) {
+				this.showOnThisDayReminder();
+			}
+		});
+
+		// Add CSS styles for consistent button sizes
+		this.addCalendarStyles();
+
+		// Add file explorer hooks for date display
+		this.registerEvent(
+			this.app.vault.on('create', (file) => {
+				if (file instanceof TFile) {
+					this.dateIndex.addFile(file);
+					this.updateFileDisplay(file);
+					this.requestVaultChangeRefresh();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (file instanceof TFile) {
+					if (this.settings.trackEditHistory && this.isIncludedFile(file)) {
+						this.activityLog.recordEdit(file);
+					}
+					this.dateIndex.updateFile(file);
+					this.previews.invalidate(file.path);
+					this.updateFileDisplay(file);
+				}
+			})
+		);
+
+		// Frontmatter date properties are only available once the metadata cache has parsed the file
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file, data, cache) => {
+				this.mentionScanner.scan(file, data, cache);
+				this.dateIndex.updateFile(file);
+				this.previews.invalidate(file.path);
+			})
+		);
+
+		// Keep the date index in sync when notes go away or move
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (file instanceof TFile) {
+					this.activityLog.removeFile(file.path);
+					this.mentionScanner.removeFile(file.path);
+					this.dateIndex.removeFile(file.path);
+					this.previews.invalidate(file.path);
+				} else if (file instanceof TFolder) {
+					this.activityLog.removeFolder(file.path);
+					this.mentionScanner.removeFolder(file.path);
+					this.dateIndex.rebuild();
+					this.previews.clear();
+				}
+				this.requestVaultChangeRefresh();
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.activityLog.renameFile(oldPath, file.path);
+					this.mentionScanner.renameFile(oldPath, file.path);
+					this.dateIndex.renameFile(file, oldPath);
+					this.previews.invalidate(oldPath);
+				} else if (file instanceof TFolder) {
+					this.activityLog.renameFolder(oldPath, file.path);
+					this.mentionScanner.renameFolder(oldPath, file.path);
+					this.dateIndex.rebuild();
+					this.previews.clear();
+				}
+				this.requestVaultChangeRefresh();
+			})
+		);
+
+		// Folder context menu: limit the calendar to that folder
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (!(file instanceof TFolder)) return;
+				menu.addItem(item => item
+					.setTitle(getLocalizedText('showFolderInCalendar', this.settings.language))
+					.setIcon('calendar-days')
+					.onClick(() => this.showFolderInCalendar(file)));
+			})
+		);
+
+		// Add command to toggle sorting
+		this.addCommand({
+			id: 'toggle-sort-by-modified',
+			name: 'Toggle Sort by Modification Date',
+			callback: () => {
+				this.toggleSortByModified();
+			}
+		});
+
+		// Add command to open calendar view
+		this.addCommand({
+			id: 'open-calendar-view',
+			name: 'Open Calendar View',
+			callback: () => {
+				this.activateCalendarView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-on-this-day',
+			name: 'Open On This Day',
+			callback: () => {
+				this.openOnThisDay();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-calendar-in-new-tab',
+			name: 'Open Calendar in New Tab',
+			callback: () => {
+				this.openCalendarInMainPane('tab');
+			}
+		});
+
+		this.addCommand({
+			id: 'open-calendar-in-split',
+			name: 'Open Calendar in Split Pane',
+			callback: () => {
+				this.openCalendarInMainPane('split');
+			}
+		});
+
+		// Register calendar view
+		this.registerView(
+			CALENDAR_VIEW_TYPE,
+			(leaf) => new CalendarView(leaf, this)
+		);
+
+		// Add ribbon icon for calendar
+		this.addRibbonIcon('calendar-days', 'Open Notes Calendar', () => {
+			this.activateCalendarView();
+		});
+
+		// Initialize file display
+		this.updateAllFilesDisplay();
+
+		// Add file click listeners for calendar jumping and watch for DOM changes
+		this.setupFileClickListeners();
+
+		// Add settings tab
+		this.addSettingTab(new NotesDatesSettingTab(this.app, this));
+	}
+
+	addCalendarStyles() {
+		// Create style element for consistent button sizes
+		const style = document.createElement('style');
+		style.textContent = `
+			.calendar-controls button,
+			.view-switcher-btn,
+			.new-note-button,
+			.sort-button {
+				min-width: 28px;
+				height: 28px;
+				padding: 2px 6px;
+				font-size: 14px;
+				border: 1px solid var(--background-modifier-border);
+				border-radius: 4px;
+				background-color: var(--interactive-normal);
+				color: var(--text-normal);
+				cursor: pointer;
+				display: inline-flex;
+				align-items: center;
+				justify-content: flex-start;
+				transition: background-color 0.2s ease;
+			}
+
+			.calendar-controls button:hover,
+			.view-switcher-btn:hover,
+			.new-note-button:hover,
+			.sort-button:hover {
+				background-color: var(--interactive-hover);
+			}
+
+			.calendar-controls button:active,
+			.view-switcher-btn:active,
+			.new-note-button:active,
+			.sort-button:active {
+				background-color: var(--interactive-active);
+			}
+
+			/* Ensure consistent spacing and left alignment */
+			.calendar-controls {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+				margin-bottom: 12px;
+				justify-content: flex-start;
+			}
+
+			.view-selector-single {
+				/* Removed margin-left: auto to align all buttons to the left */
+			}
+
+			/* Make icons even smaller */
+			.calendar-controls button,
+			.view-switcher-btn,
+			.new-note-button {
+				font-size: 14px;
+				font-weight: normal;
+				padding: 2px 6px;
+				min-width: 28px;
+				height: 28px;
+			}
+
+			/* Special sizing for text buttons */
+			.sort-button {
+				font-size: 10px;
+				padding: 2px 4px;
+				min-width: 28px;
+				height: 28px;
+			}
+
+			/* File highlighting styles */
+			.file-scroll-highlight {
+				background-color: var(--background-modifier-hover) !important;
+				border-left: 3px solid var(--interactive-accent) !important;
+				padding-left: 8px !important;
+				margin-left: -3px !important;
+				transition: all 0.3s ease;
+			}
+
+			.file-click-highlight {
+				background-color: var(--background-modifier-hover) !important;
+				border-left: 3px solid var(--interactive-accent-hue) !important;
+				padding-left: 8px !important;
+				margin-left: -3px !important;
+				box-shadow: 0 0 8px rgba(var(--interactive-accent-rgb), 0.3) !important;
+				transition: all 0.2s ease;
+			}
+
+			.year-view-file-highlight {
+				background-color: var(--interactive-accent) !important;
+				color: var(--text-on-accent) !important;
+				border-radius: 4px !important;
+				box-shadow: 0 0 10px rgba(var(--interactive-accent-rgb), 0.5) !important;
+				animation: year-view-highlight-pulse 2s ease-in-out !important;
+			}
+
+			@keyframes year-view-highlight-pulse {
+				0% { transform: scale(1); }
+				50% { transform: scale(1.02); }
+				100% { transform: scale(1); }
+			}
+
+			/* Year view layout styles */
+			.year-view-timeline-container {
+				display: flex;
+				flex-direction: column;
+				height: 100%;
+				max-height: 100%;
+				margin-top: 0; /* Remove margin to be closer to header */
+			}
+
+			.year-month-timeline {
+				position: sticky;
+				top: 14px; /* Further reduce gap */
+				z-index: 15;
+				background-color: var(--background-primary);
+				border-bottom: 1px solid var(--background-modifier-border);
+				padding: 0px 0; /* Remove padding completely */
+				margin-top: 0; /* No margin */
+				flex-shrink: 0;
+			}
+
+			.year-month-timeline-container {
+				display: flex;
+				justify-content: space-between;
+				align-items: center;
+				padding: 0 8px; /* Reduced padding */
+				gap: 2px; /* Reduced gap */
+			}
+
+			.year-month-timeline-item {
+				display: flex;
+				flex-direction: column;
+				align-items: center;
+				padding: 6px 8px; /* Larger padding for bigger text */
+				border-radius: 4px;
+				cursor: pointer;
+				transition: all 0.2s ease;
+				min-width: 50px; /* Larger minimum width for bigger text */
+				background-color: var(--background-secondary);
+				border: 1px solid var(--background-modifier-border);
+				font-size: 12px; /* Larger font size */
+			}
+
+			.year-month-timeline-item:hover {
+				background-color: var(--background-modifier-hover);
+				transform: translateY(-1px);
+			}
+
+			.year-month-timeline-item.active {
+				background-color: var(--interactive-accent);
+				color: var(--text-on-accent);
+				border-color: var(--interactive-accent);
+			}
+
+			.year-month-timeline-item.has-notes {
+				border-color: var(--interactive-accent);
+				font-weight: 500;
+			}
+
+			.year-month-timeline-month {
+				font-size: 13px; /* Larger font */
+				font-weight: 500;
+				white-space: nowrap;
+				line-height: 1.2;
+			}
+
+			.year-month-timeline-count {
+				font-size: 11px; /* Larger font for count */
+				opacity: 0.7;
+				margin-top: 2px;
+				line-height: 1.1;
+			}
+
+			/* Timeline should be the only scrollable area */
 			.year-view-timeline-container .timeline {
 				flex: 1;
 				overflow-y: auto;
@@ -984,6 +2247,10 @@ class NotesDatesPlugin extends Plugin {
 	onunload() {
 		// Clean up file display when plugin is unloaded
 		this.cleanupFileDisplay();
+		this.previews.disconnect();
+
+		// Write edits the debounced save has not stored yet
+		this.requestPluginDataSave.run();
 	}
 
 	cleanupFileDisplay() {
@@ -1018,12 +2285,214 @@ class NotesDatesPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Plugin data holds the settings plus the persisted edit history
+		const { activityLog, ...savedSettings } = (await this.loadData()) || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, savedSettings);
 		this.lastLanguage = this.settings.language; // Initialize language tracking
+
+		this.activityLog = new ActivityLog(this, activityLog);
+		this.activityLog.prune();
+
+		// Sources saved before they had ids
+		if (this.settings.sources.some(source => !source.id)) {
+			this.settings.sources = this.settings.sources.map(source => source.id ? source : { ...source, id: createSourceId() });
+			await this.savePluginData();
+		}
+	}
+
+	async savePluginData() {
+		await this.saveData({ ...this.settings, activityLog: this.activityLog.toJSON() });
+	}
+
+	// Edits are recorded continuously, so batch the writes to plugin data
+	requestPluginDataSave = debounce(() => this.savePluginData(), 2000, true);
+
+	// Resolve a note's date for the given kind. The created date walks the configured
+	// date sources in priority order with the date fallback's file timestamp last;
+	// the modified date uses the modified date properties, then the file's modification time.
+	resolveNoteDate(file: TFile, kind: NoteDateKind = 'created'): Date {
+		if (kind === 'modified') {
+			return this.getDatePropertyValue(file, this.settings.modifiedDateProperties) || new Date(file.stat.mtime);
+		}
+
+		for (const source of this.settings.dateSourceOrder) {
+			const date = this.getDateFromSource(file, source);
+			if (date) {
+				return date;
+			}
+		}
+
+		return this.getDateFromSource(file, 'file') as Date;
+	}
+
+	// Whether a file's type is shown in the calendar and gets a date badge
+	isIncludedFile(file: TFile): boolean {
+		return this.settings.includedFileTypes.includes(file.extension.toLowerCase());
+	}
+
+	// Whether a file is placed in the calendar: its type is included and the folder rules allow it.
+	// The folder rules only scope the calendar; badges and edit history follow the file types alone.
+	isCalendarFile(file: TFile): boolean {
+		if (!this.isIncludedFile(file)) {
+			return false;
+		}
+
+		const { included, excluded } = this.getFolderRules();
+		if (included.length > 0 && !included.some(rule => matchesFolderRule(file.path, rule))) {
+			return false;
+		}
+		return !excluded.some(rule => matchesFolderRule(file.path, rule));
+	}
+
+	getFolderRules(): { included: FolderRule[]; excluded: FolderRule[] } {
+		const cacheKey = `${this.settings.includedFolders.join('\n')}\0${this.settings.excludedFolders.join('\n')}`;
+		if (this.folderRulesKey !== cacheKey) {
+			this.folderRules = {
+				included: this.settings.includedFolders.map(entry => compileFolderRule(entry)),
+				excluded: this.settings.excludedFolders.map(entry => compileFolderRule(entry))
+			};
+			this.folderRulesKey = cacheKey;
+		}
+		return this.folderRules;
+	}
+
+	// File categories covered by the included file types, in display order
+	getIncludedFileCategories(): FileCategory[] {
+		const categories = new Set(this.settings.includedFileTypes.map(extension =>
+			getFileCategory({ extension: extension.toLowerCase() } as TFile)));
+		return FILE_CATEGORY_ORDER.filter(category => categories.has(category));
+	}
+
+	getSourceMatchers(): { source: CalendarSource; matches: (file: TFile) => boolean }[] {
+		const cacheKey = JSON.stringify(this.settings.sources);
+		if (this.compiledSourcesKey !== cacheKey) {
+			this.compiledSources = this.settings.sources
+				.filter(source => source.name.trim())
+				.map(source => ({ source, matches: compileCalendarSource(this.app, source) }));
+			this.compiledSourcesKey = cacheKey;
+		}
+		return this.compiledSources;
+	}
+
+	// Sources a file belongs to, in the order they are configured
+	getFileSources(file: TFile): CalendarSource[] {
+		return this.getSourceMatchers()
+			.filter(({ matches }) => matches(file))
+			.map(({ source }) => source);
+	}
+
+	// Timeline dots take the color of the first source of their file
+	applySourceColor(dotEl: HTMLElement, file: TFile, hiddenSources?: Set<string>) {
+		const source = this.getFileSources(file).find(fileSource => !hiddenSources?.has(fileSource.id));
+		if (source) {
+			dotEl.style.backgroundColor = source.color;
+			dotEl.title = source.name;
+		}
+	}
+
+	// Color configured for a tag; the first matching entry wins, so parents can be overridden by listing children first
+	getTagColor(tag: string): string | null {
+		const entry = this.settings.tagColors.find(tagColor => tagColor.tag.trim() && tagMatches(tag, tagColor.tag));
+		return entry ? entry.color : null;
+	}
+
+	// Tag chips below a timeline title
+	addTagChips(container: HTMLElement, file: TFile) {
+		const tags = getFileTags(this.app, file);
+		if (tags.length === 0) return;
+
+		const chipsEl = container.createDiv("timeline-note-tags");
+		tags.forEach(tag => {
+			const chip = chipsEl.createSpan({ text: tag, cls: "timeline-tag-chip" });
+			const color = this.getTagColor(tag);
+			if (color) {
+				chip.style.borderColor = color;
+				chip.style.color = color;
+			}
+		});
+	}
+
+	// The date a file is located by in the calendar for the current axis
+	getCalendarDate(file: TFile): Date {
+		return this.resolveNoteDate(file, this.settings.calendarAxis === 'modified' ? 'modified' : 'created');
+	}
+
+	getDateFromSource(file: TFile, source: DateSource): Date | null {
+		switch (source) {
+			case 'frontmatter':
+				return this.getDatePropertyValue(file, this.settings.dateProperties);
+			case 'filename':
+				return extractDateFromPath(file.path, this.getFilenameDateMatchers());
+			case 'file':
+				return new Date(this.settings.dateFallback === 'ctime' ? file.stat.ctime : file.stat.mtime);
+		}
+	}
+
+	// The first of `keys` in the file's frontmatter that parses as a date
+	getDatePropertyValue(file: TFile, keys: string[]): Date | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return null;
+		for (const key of keys) {
+			const date = parseDatePropertyValue(frontmatter[key], this.settings.datePropertyFormats);
+			if (date) {
+				return date;
+			}
+		}
+		return null;
+	}
+
+	getFilenameDateMatchers(): FilenameDateMatcher[] {
+		const cacheKey = this.settings.filenameDatePatterns.join('\n');
+		if (this.filenameDateMatchersKey !== cacheKey) {
+			this.filenameDateMatchers = this.settings.filenameDatePatterns
+				.map(pattern => compileFilenameDatePattern(pattern))
+				.filter((matcher): matcher is FilenameDateMatcher => matcher !== null);
+			this.filenameDateMatchersKey = cacheKey;
+		}
+		return this.filenameDateMatchers;
+	}
+
+	// Scanning reads note content in the background; the index is rebuilt once it is done
+	async rescanMentions() {
+		if (!this.settings.showMentions) return;
+		await this.mentionScanner.scanAll();
+		this.refreshDateSource();
+	}
+
+	requestMentionRescan = debounce(() => this.rescanMentions(), 1000, true);
+
+	// Settings text fields fire on every keystroke, so batch the index rebuilds
+	requestDateSourceRefresh = debounce(() => this.refreshDateSource(), 500, true);
+
+	// Rebuild the date index and redraw open calendars after the date source changed
+	refreshDateSource() {
+		this.dateIndex.rebuild();
+		this.refreshCalendarViews();
+		this.updateAllFilesDisplay();
+	}
+
+	refreshCalendarViews() {
+		this.app.workspace.getLeavesOfType(CALENDAR_VIEW_TYPE).forEach(leaf => {
+			if (leaf.view instanceof CalendarView) {
+				leaf.view.refresh();
+			}
+		});
+	}
+
+	refreshDateModals() {
+		this.openDateModals.forEach(modal => modal.renderTimeline());
 	}
 
+	// Notes can be created, deleted or moved in bursts (e.g. a whole folder),
+	// so batch the refresh of calendars, open modals and folder counts
+	requestVaultChangeRefresh = debounce(() => {
+		this.refreshCalendarViews();
+		this.refreshDateModals();
+		this.updateFileExplorerDates();
+	}, 300, true);
+
 	async saveSettings(skipFileDisplayUpdate: boolean = false) {
-		await this.saveData(this.settings);
+		await this.savePluginData();
 
 		// Check if language changed and update file display accordingly
 		const languageChanged = this.lastLanguage !== this.settings.language;
@@ -1060,7 +2529,7 @@ class NotesDatesPlugin extends Plugin {
 
 			if (filePath) {
 				const file = this.app.vault.getAbstractFileByPath(filePath);
-				if (file && file instanceof TFile && file.extension === 'md') {
+				if (file && file instanceof TFile && this.isIncludedFile(file)) {
 					this.addDateDisplayToFileTitle(fileTitle, file);
 				}
 			}
@@ -1127,8 +2596,10 @@ class NotesDatesPlugin extends Plugin {
 		}
 
 		if (this.settings.showModificationDate || this.settings.showCreationDate) {
-			const date = this.settings.showModificationDate ? file.stat.mtime : file.stat.ctime;
-			const dateObj = new Date(date);
+			// With both toggles on, the badge shows the date the calendar places the file on
+			const dateObj = this.settings.showModificationDate && this.settings.showCreationDate ?
+				this.getCalendarDate(file) :
+				this.resolveNoteDate(file, this.settings.showModificationDate ? 'modified' : 'created');
 			const dateStr = this.formatCompactDate(dateObj);
 
 			// 在文件标题的右侧插入日期显示
@@ -1334,6 +2805,140 @@ class NotesDatesPlugin extends Plugin {
 		// For now, we'll just show a notification
 	}
 
+	// Open a new calendar in the main workspace, as a tab or a split next to the active pane
+	async openCalendarInMainPane(paneType: 'tab' | 'split') {
+		const leaf = this.app.workspace.getLeaf(paneType);
+		await leaf.setViewState({ type: CALENDAR_VIEW_TYPE, active: true });
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	async showFolderInCalendar(folder: TFolder) {
+		await this.activateCalendarView();
+		this.getCalendarView()?.setScopeFolder(folder.isRoot() ? '' : folder.path);
+	}
+
+	// Create the note for `date` from the configured folder, file name pattern and template, and open it.
+	// The date is also written to the first date property so the note stays on that day.
+	async createDatedNote(date: Date): Promise<TFile | null> {
+		const language = this.settings.language;
+		const fileName = moment(date).format(this.settings.newNoteFileNamePattern.trim() || DEFAULT_SETTINGS.newNoteFileNamePattern);
+		const folder = this.settings.newNoteFolder.trim().replace(/^\/+|\/+$/g, '');
+		const path = normalizePath(folder ? `${folder}/${fileName}.md` : `${fileName}.md`);
+
+		try {
+			// A note for the day may already exist, e.g. with a YYYY-MM-DD pattern
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				await this.app.workspace.getLeaf(true).openFile(existing);
+				return existing;
+			}
+
+			// The day is recorded in the first date property, so there has to be one
+			const dateProperty = this.settings.dateProperties[0];
+			if (!dateProperty) {
+				new Notice(getLocalizedText('newNoteNeedsDateProperty', language));
+				return null;
+			}
+			const dateValue = moment(date).format(this.settings.datePropertyFormats[0] || 'YYYY-MM-DD');
+			const resolvedDate = this.predictCreatedDate(path, dateValue, new Date());
+			if (getDayKey(resolvedDate) !== getDayKey(date)) {
+				new Notice(`${getLocalizedText('newNoteDateMismatch', language)} ${moment(resolvedDate).format('YYYY-MM-DD')}`);
+				return null;
+			}
+
+			// The pattern may contain folders too, e.g. YYYY/MM/YYYY-MM-DD
+			const parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+			if (parentPath && !this.app.vault.getAbstractFileByPath(parentPath)) {
+				await this.app.vault.createFolder(parentPath);
+			}
+
+			const title = path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+			const content = fillNoteTemplate(await this.readNoteTemplate(), date, title, language);
+			const newFile = await this.app.vault.create(path, content);
+
+			await this.app.fileManager.processFrontMatter(newFile, (frontmatter) => {
+				frontmatter[dateProperty] = dateValue;
+			});
+
+			// Open the new file in a new pane
+			await this.app.workspace.getLeaf(true).openFile(newFile);
+
+			new Notice(`${getLocalizedText('newNoteCreated', language)} ${path}`);
+			return newFile;
+		} catch (error) {
+			new Notice(`${getLocalizedText('createNoteFailed', language)} ${error.message}`);
+			return null;
+		}
+	}
+
+	// Created date a new note at `path` will resolve to once `dateValue` is written to its first
+	// date property, following resolveNoteDate before the file exists
+	predictCreatedDate(path: string, dateValue: string, fileTime: Date): Date {
+		for (const source of this.settings.dateSourceOrder) {
+			const date = source === 'frontmatter' ? parseDatePropertyValue(dateValue, this.settings.datePropertyFormats) :
+				source === 'filename' ? extractDateFromPath(path, this.getFilenameDateMatchers()) :
+				fileTime;
+			if (date) {
+				return date;
+			}
+		}
+		return fileTime;
+	}
+
+	async readNoteTemplate(): Promise<string> {
+		const templatePath = this.settings.newNoteTemplate.trim();
+		if (!templatePath) return '';
+
+		const normalized = normalizePath(templatePath);
+		const template = this.app.vault.getAbstractFileByPath(normalized) ||
+			this.app.vault.getAbstractFileByPath(`${normalized}.md`);
+		if (!(template instanceof TFile)) {
+			new Notice(`${getLocalizedText('templateNotFound', this.settings.language)} ${templatePath}`);
+			return '';
+		}
+		return this.app.vault.read(template);
+	}
+
+	// Show today's notes from previous years in the calendar
+	async openOnThisDay() {
+		await this.activateCalendarView();
+		const leaves = this.app.workspace.getLeavesOfType(CALENDAR_VIEW_TYPE);
+		if (leaves.length > 0 && leaves[0].view instanceof CalendarView) {
+			leaves[0].view.switchViewType('onThisDay', new Date());
+		}
+	}
+
+	// Startup notice when earlier years have notes on today's date
+	showOnThisDayReminder() {
+		const today = new Date();
+		const count = this.dateIndex.getNotesOnThisDay(today.getMonth(), today.getDate(), today.getFullYear(), getAxisKinds(this.settings.calendarAxis))
+			.reduce((total, { notes }) => total + notes.length, 0);
+		if (count === 0) return;
+
+		const message = createFragment(fragment => {
+			const link = fragment.createEl("a", {
+				text: getLocalizedText('onThisDayReminder', this.settings.language).replace('{count}', count.toString()),
+				href: "#"
+			});
+			link.onclick = (e) => {
+				e.preventDefault();
+				this.openOnThisDay();
+			};
+		});
+		new Notice(message, 10000);
+	}
+
+	// The calendar that file explorer clicks drive (the first open one)
+	getCalendarView(): CalendarView | null {
+		const leaves = this.app.workspace.getLeavesOfType(CALENDAR_VIEW_TYPE);
+		const view = leaves.length > 0 ? leaves[0].view : null;
+		return view instanceof CalendarView ? view : null;
+	}
+
+	getCalendarViewType(): CalendarViewType {
+		return this.getCalendarView()?.viewType ?? this.settings.calendarViewType;
+	}
+
 	async activateCalendarView() {
 		const { workspace } = this.app;
 
@@ -1410,7 +3015,7 @@ class NotesDatesPlugin extends Plugin {
 			if (fileTitleEl.hasAttribute('data-calendar-listener')) return;
 
 			const file = this.app.vault.getAbstractFileByPath(filePath);
-			if (!file || !(file instanceof TFile) || file.extension !== 'md') return;
+			if (!file || !(file instanceof TFile) || !this.isIncludedFile(file)) return;
 
 			// Mark that we've added a listener
 			fileTitleEl.setAttribute('data-calendar-listener', 'true');
@@ -1421,19 +3026,20 @@ class NotesDatesPlugin extends Plugin {
 				e.stopPropagation();
 				console.log('File click triggered for file:', file.path); // Debug log
 
-				// Check current calendar view type using plugin settings directly
-				if (this.settings.calendarViewType === 'year') {
+				// Check the view type of the calendar that file clicks drive
+				const viewType = this.getCalendarViewType();
+				if (viewType === 'year') {
 					// In year view: scroll to the file within the year view's month timeline
 					this.scrollToFileInYearView(file);
 					console.log('Year view: scrolling to file in year timeline');
 					return;
 				}
 
-				// In week view: jump to file's date and also open the file
-				if (this.settings.calendarViewType === 'week') {
+				// In week and day view: jump to file's date and also open the file
+				if (viewType === 'week' || viewType === 'day') {
 					this.jumpCalendarToFileDate(file);
 					this.openFileInEditor(file);
-					console.log('Week view: jumping to date and opening file');
+					console.log('Week/day view: jumping to date and opening file');
 					return;
 				}
 
@@ -1479,14 +3085,13 @@ class NotesDatesPlugin extends Plugin {
 			if (calendarLeaves.length > 0) {
 				const calendarView = calendarLeaves[0].view as any;
 
-				// Jump to file's modification date
-				const modDate = new Date(file.stat.mtime);
+				// Jump to the file's date on the current calendar axis
+				const modDate = this.getCalendarDate(file);
 				console.log('Jumping to date:', modDate);
 
-				// Always switch to month view (save but skip file display update)
-				const originalViewType = this.settings.calendarViewType;
-				this.settings.calendarViewType = 'month';
-				await this.saveSettings(true); // Skip file display update to prevent language switching issues
+				// Switch to month view unless the week or day view is showing
+				const originalViewType = calendarView.viewType;
+				calendarView.viewType = originalViewType === 'week' || originalViewType === 'day' ? originalViewType : 'month';
 
 				// Update the view switcher button
 				const controlsEl = (calendarView as any).controlsEl;
@@ -1525,8 +3130,8 @@ class NotesDatesPlugin extends Plugin {
 	}
 
 	scrollToFileInYearView(file: TFile) {
-		// Get file's modification date
-		const fileDate = new Date(file.stat.mtime);
+		// Get file's date on the current calendar axis
+		const fileDate = this.getCalendarDate(file);
 		const fileYear = fileDate.getFullYear();
 		const fileMonth = fileDate.getMonth();
 
@@ -1569,61 +3174,14 @@ class NotesDatesPlugin extends Plugin {
 		// First, scroll the month timeline to the target month
 		this.scrollToMonthInTimeline(fileMonth);
 
-		// Find all file elements in the year view's month timelines
-		const fileElements = document.querySelectorAll('.timeline-note-content');
-		let targetElement: Element | null = null;
-		const fileNameWithoutExt = file.basename; // Get filename without .md extension
-
-		console.log('Looking for file:', fileNameWithoutExt, 'in', fileElements.length, 'timeline elements');
-
-		fileElements.forEach((element: Element) => {
-			const fileEl = element as HTMLElement;
-			// Check if this element represents our target file
-			const text = fileEl.textContent?.trim() || '';
-
-			// Also check file path by looking for data-path attribute or comparing with full path
-			const fileTitle = fileEl.querySelector('.timeline-note-title')?.textContent?.trim();
-			const filePath = fileEl.querySelector('.timeline-note-path')?.textContent?.trim();
-
-			console.log('Checking element:', { text, fileTitle, filePath, targetName: fileNameWithoutExt });
-
-			// Match by filename (case insensitive) - try both title and path
-			if ((fileTitle && fileTitle.toLowerCase() === fileNameWithoutExt.toLowerCase()) ||
-				(text.toLowerCase().includes(fileNameWithoutExt.toLowerCase()))) {
-				targetElement = fileEl;
-				console.log('Found matching element for:', fileNameWithoutExt);
-			}
-		});
-
-		// Expand the month section if it's collapsed
-		this.expandMonthSection(fileMonth);
-
-		setTimeout(() => {
-			if (targetElement) {
-				const targetEl = targetElement as HTMLElement;
-
-				// Clear any existing highlights
-				this.clearYearViewHighlights();
-
-				// Scroll the element into view within the year view
-				targetEl.scrollIntoView({
-					behavior: 'smooth',
-					block: 'center'
-				});
-
-				// Add highlight class
-				targetEl.classList.add('year-view-file-highlight');
-
-				console.log('Scrolled to and highlighted file in year view:', file.path);
-
-				// Remove highlight after 3 seconds
-				setTimeout(() => {
-					targetEl.classList.remove('year-view-file-highlight');
-				}, 3000);
-			} else {
-				console.log('File element not found in year view timeline:', file.path);
-			}
-		}, 300); // Wait for month expansion animation
+		// Year view rows only exist while on screen, so let the windowed timeline find,
+		// expand, scroll to and highlight the file (it stays highlighted if re-rendered)
+		const yearTimeline = this.getCalendarView()?.yearTimeline;
+		if (yearTimeline && yearTimeline.revealFile(file.path, 3000)) {
+			console.log('Scrolled to and highlighted file in year view:', file.path);
+		} else {
+			console.log('File element not found in year view timeline:', file.path);
+		}
 	}
 
 	openFileInEditor(file: TFile) {
@@ -1651,48 +3209,305 @@ class NotesDatesPlugin extends Plugin {
 		}
 	}
 
-	expandMonthSection(monthIndex: number) {
-		const monthSection = document.getElementById(`month-${monthIndex}`);
-		if (monthSection) {
-			// Remove collapsed class if it exists
-			monthSection.removeClass('collapsed');
-			monthSection.addClass('expanded');
-		}
+	expandMonthSection(monthIndex: number) {
+		this.getCalendarView()?.yearTimeline?.expandMonth(monthIndex);
+	}
+
+	toggleMonthSection(monthIndex: number) {
+		this.getCalendarView()?.toggleYearMonth(monthIndex);
+	}
+
+	clearYearViewHighlights() {
+		this.getCalendarView()?.yearTimeline?.setHighlight(null);
+		const highlightedElements = document.querySelectorAll('.year-view-file-highlight');
+		highlightedElements.forEach((element: Element) => {
+			element.classList.remove('year-view-file-highlight');
+		});
+	}
+}
+
+type YearTimelineRow =
+	{ type: 'header'; month: number; count: number } |
+	{ type: 'note'; month: number; note: DatedNote };
+
+// Windowed year timeline: every row has a fixed height, so only the rows around the
+// visible range are kept in the DOM while the spacer keeps the full scroll height
+class YearTimelineWindow {
+	collapsedMonths: Set<number>;
+	highlightPath: string | null = null;
+	private rows: YearTimelineRow[] = [];
+	private offsets: number[] = [];
+	private rendered: Map<number, HTMLElement> = new Map();
+	private spacerEl: HTMLElement;
+	private frameRequested = false;
+	private highlightTimer: number | null = null;
+
+	constructor(
+		private scrollEl: HTMLElement,
+		private notesByMonth: DatedNote[][],
+		collapsedMonths: Set<number>,
+		private renderRow: (row: YearTimelineRow, rowEl: HTMLElement) => void
+	) {
+		this.collapsedMonths = collapsedMonths;
+		this.spacerEl = scrollEl.createDiv("year-timeline-spacer");
+		scrollEl.addEventListener('scroll', () => this.requestUpdate());
+		this.buildRows();
+	}
+
+	get totalNotes(): number {
+		return this.notesByMonth.reduce((total, notes) => total + notes.length, 0);
+	}
+
+	isCollapsed(month: number): boolean {
+		return this.collapsedMonths.has(month);
+	}
+
+	toggleMonth(month: number) {
+		if (this.collapsedMonths.has(month)) {
+			this.collapsedMonths.delete(month);
+		} else {
+			this.collapsedMonths.add(month);
+		}
+		this.buildRows();
+	}
+
+	expandMonth(month: number) {
+		if (this.collapsedMonths.delete(month)) {
+			this.buildRows();
+		}
+	}
+
+	scrollToMonth(month: number, behavior: ScrollBehavior = 'smooth') {
+		const index = this.rows.findIndex(row => row.type === 'header' && row.month === month);
+		if (index !== -1) {
+			this.scrollEl.scrollTo({ top: this.offsets[index], behavior });
+		}
+	}
+
+	// Expand the file's month, scroll its row to the middle and highlight it, even if it was never rendered
+	revealFile(path: string, duration: number): boolean {
+		const month = this.notesByMonth.findIndex(notes => notes.some(({ file }) => file.path === path));
+		if (month === -1) return false;
+		this.expandMonth(month);
+
+		const index = this.rows.findIndex(row => row.type === 'note' && row.note.file.path === path);
+		if (index === -1) return false;
+
+		this.setHighlight(path, duration);
+		const top = this.offsets[index] - (this.scrollEl.clientHeight - this.getRowHeight(this.rows[index])) / 2;
+		this.scrollEl.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+		this.update();
+		return true;
+	}
+
+	setHighlight(path: string | null, duration = 0) {
+		this.highlightPath = path;
+		this.rendered.forEach((rowEl, index) => this.applyHighlight(rowEl, this.rows[index]));
+
+		if (this.highlightTimer !== null) {
+			window.clearTimeout(this.highlightTimer);
+			this.highlightTimer = null;
+		}
+		if (path && duration > 0) {
+			this.highlightTimer = window.setTimeout(() => this.setHighlight(null), duration);
+		}
+	}
+
+	private buildRows() {
+		this.rows = [];
+		this.notesByMonth.forEach((notes, month) => {
+			this.rows.push({ type: 'header', month, count: notes.length });
+			if (!this.collapsedMonths.has(month)) {
+				notes.forEach(note => this.rows.push({ type: 'note', month, note }));
+			}
+		});
+
+		let offset = 0;
+		this.offsets = this.rows.map(row => {
+			const rowOffset = offset;
+			offset += this.getRowHeight(row);
+			return rowOffset;
+		});
+		this.spacerEl.style.height = `${offset}px`;
+
+		this.rendered.forEach(rowEl => rowEl.remove());
+		this.rendered.clear();
+		this.update();
+	}
+
+	private getRowHeight(row: YearTimelineRow): number {
+		return row.type === 'header' ? YEAR_HEADER_ROW_HEIGHT : YEAR_NOTE_ROW_HEIGHT;
 	}
 
-	toggleMonthSection(monthIndex: number) {
-		const monthSection = document.getElementById(`month-${monthIndex}`);
-		const monthItem = document.querySelectorAll('.year-month-timeline-item')[monthIndex];
-
-		if (monthSection && monthItem) {
-			if (monthSection.hasClass('expanded')) {
-				// Collapse the month
-				monthSection.removeClass('expanded');
-				monthSection.addClass('collapsed');
-				monthItem.removeClass('expanded');
+	private requestUpdate() {
+		if (this.frameRequested) return;
+		this.frameRequested = true;
+		window.requestAnimationFrame(() => {
+			this.frameRequested = false;
+			this.update();
+		});
+	}
+
+	private update() {
+		if (this.rows.length === 0) return;
+
+		// Until the pane has a size, render a first screenful
+		const viewportHeight = this.scrollEl.clientHeight || YEAR_NOTE_ROW_HEIGHT * 10;
+		const top = this.scrollEl.scrollTop - YEAR_OVERSCAN_PX;
+		const bottom = this.scrollEl.scrollTop + viewportHeight + YEAR_OVERSCAN_PX;
+
+		// Binary search for the first row that ends below the top of the window
+		let low = 0;
+		let high = this.rows.length - 1;
+		while (low < high) {
+			const mid = Math.floor((low + high) / 2);
+			if (this.offsets[mid] + this.getRowHeight(this.rows[mid]) <= top) {
+				low = mid + 1;
 			} else {
-				// Expand the month
-				monthSection.removeClass('collapsed');
-				monthSection.addClass('expanded');
-				monthItem.addClass('expanded');
+				high = mid;
 			}
 		}
-	}
+		let last = low;
+		while (last < this.rows.length - 1 && this.offsets[last + 1] < bottom) {
+			last++;
+		}
 
-	clearYearViewHighlights() {
-		const highlightedElements = document.querySelectorAll('.year-view-file-highlight');
-		highlightedElements.forEach((element: Element) => {
-			element.classList.remove('year-view-file-highlight');
+		this.rendered.forEach((rowEl, index) => {
+			if (index < low || index > last) {
+				rowEl.remove();
+				this.rendered.delete(index);
+			}
 		});
+
+		for (let index = low; index <= last; index++) {
+			if (this.rendered.has(index)) continue;
+			const row = this.rows[index];
+			const rowEl = this.spacerEl.createDiv("year-timeline-row");
+			rowEl.style.top = `${this.offsets[index]}px`;
+			rowEl.style.height = `${this.getRowHeight(row)}px`;
+			this.renderRow(row, rowEl);
+			this.applyHighlight(rowEl, row);
+			this.rendered.set(index, rowEl);
+		}
+	}
+
+	private applyHighlight(rowEl: HTMLElement, row: YearTimelineRow) {
+		const itemEl = rowEl.querySelector('.timeline-item');
+		if (itemEl) {
+			itemEl.toggleClass('year-view-file-highlight', row.type === 'note' && row.note.file.path === this.highlightPath);
+		}
 	}
 }
 
 class CalendarView extends ItemView {
 	plugin: NotesDatesPlugin;
+	hiddenFileCategories: Set<FileCategory> = new Set();
+	// Each calendar keeps its own view type and sort order; new ones start from the settings
+	viewType: CalendarViewType;
+	sortOrder: 'desc' | 'asc';
+	// Windowed timeline of the year view while it is showing
+	yearTimeline: YearTimelineWindow | null = null;
+	// Folder subtree this calendar is limited to ('' for the whole vault)
+	scopeFolder = '';
+	// Only notes with any / all of these tags are shown (none for no tag filter)
+	tagFilter: string[] = [];
+	tagFilterMode: TagFilterMode = 'any';
+	// Ids of the sources switched off in the legend
+	hiddenSources: Set<string> = new Set();
+	// Query typed in the query bar; while it is invalid the last valid one stays applied
+	query = '';
+	private queryNode: QueryNode | null = null;
+	// Text of `queryNode`, saved with the typed query so an invalid one is restored the same way
+	private appliedQuery = '';
+	// Whether `query` failed to parse, so it can't be saved
+	private queryError = false;
+	private queryBarOpen = false;
+	// Search typed in the controls; with `searchContent`, note contents are searched too
+	searchQuery = '';
+	searchContent = false;
+	private searchMatcher: ((text: string) => SearchResult | null) | null = null;
+	// Paths of notes whose content matches the search, filled in the background
+	private contentHits: Set<string> = new Set();
+	private contentSearchId = 0;
 
 	constructor(leaf: WorkspaceLeaf, plugin: NotesDatesPlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.viewType = plugin.settings.calendarViewType;
+		this.sortOrder = plugin.settings.sortOrder;
+	}
+
+	// Saved with the workspace layout so every calendar reopens where it was
+	getState(): Record<string, unknown> {
+		return {
+			viewType: this.viewType,
+			sortOrder: this.sortOrder,
+			date: getDayKey((this as any).currentDate || new Date()),
+			hiddenFileCategories: Array.from(this.hiddenFileCategories),
+			scopeFolder: this.scopeFolder,
+			tagFilter: this.tagFilter,
+			tagFilterMode: this.tagFilterMode,
+			hiddenSources: Array.from(this.hiddenSources),
+			query: this.query,
+			appliedQuery: this.appliedQuery,
+			searchQuery: this.searchQuery,
+			searchContent: this.searchContent
+		};
+	}
+
+	async setState(state: any, result: ViewStateResult): Promise<void> {
+		if (state) {
+			if (CALENDAR_VIEW_TYPES.includes(state.viewType)) {
+				this.viewType = state.viewType;
+			}
+			if (state.sortOrder === 'asc' || state.sortOrder === 'desc') {
+				this.sortOrder = state.sortOrder;
+			}
+			if (typeof state.date === 'string' && moment(state.date, 'YYYY-MM-DD', true).isValid()) {
+				(this as any).currentDate = moment(state.date, 'YYYY-MM-DD').toDate();
+			}
+			if (Array.isArray(state.hiddenFileCategories)) {
+				this.hiddenFileCategories = new Set(state.hiddenFileCategories
+					.filter((category: string) => FILE_CATEGORY_ORDER.includes(category as FileCategory)));
+			}
+			if (typeof state.scopeFolder === 'string') {
+				this.scopeFolder = state.scopeFolder;
+				this.updateScopeSelect();
+			}
+			if (Array.isArray(state.tagFilter)) {
+				this.tagFilter = state.tagFilter.filter((tag: unknown) => typeof tag === 'string');
+			}
+			if (state.tagFilterMode === 'any' || state.tagFilterMode === 'all') {
+				this.tagFilterMode = state.tagFilterMode;
+			}
+			if (Array.isArray(state.hiddenSources)) {
+				this.hiddenSources = new Set(state.hiddenSources.filter((id: unknown) => typeof id === 'string'));
+			}
+			// Apply the last valid query first; an invalid typed one then keeps it applied
+			if (typeof state.appliedQuery === 'string') {
+				this.setQuery(state.appliedQuery, false);
+			}
+			if (typeof state.query === 'string' && state.query !== state.appliedQuery) {
+				this.setQuery(state.query, false);
+			}
+			if (typeof state.searchContent === 'boolean') {
+				this.searchContent = state.searchContent;
+			}
+			if (typeof state.searchQuery === 'string') {
+				this.setSearchQuery(state.searchQuery, false);
+			}
+
+			// The state may arrive after onOpen has already rendered the defaults
+			const viewSwitcherBtn = (this as any).viewSwitcherBtn;
+			if (viewSwitcherBtn) {
+				viewSwitcherBtn.textContent = this.getViewSwitcherLabel();
+				viewSwitcherBtn.title = this.getViewSwitcherTooltip();
+			}
+			this.updateSortButton();
+			this.refresh();
+		}
+
+		await super.setState(state, result);
 	}
 
 	getViewType() {
@@ -1741,24 +3556,15 @@ class CalendarView extends ItemView {
 			title: this.getViewSwitcherTooltip(),
 			cls: "view-switcher-btn"
 		});
+		(this as any).viewSwitcherBtn = viewSwitcherBtn;
 
 		viewSwitcherBtn.onclick = () => {
-			// Cycle through view types: year -> month -> year
-			const currentType = this.plugin.settings.calendarViewType;
-			let nextType: 'month' | 'year';
-
-			switch (currentType) {
-				case 'year':
-					nextType = 'month';
-					break;
-				case 'month':
-					nextType = 'year';
-					break;
-			}
+			// Cycle through view types: decade -> year -> month -> week -> day -> agenda -> decade
+			const currentIndex = CALENDAR_VIEW_CYCLE.indexOf(this.viewType);
+			const nextType = CALENDAR_VIEW_CYCLE[(currentIndex + 1) % CALENDAR_VIEW_CYCLE.length];
 
 			// Update setting and re-render
-			this.plugin.settings.calendarViewType = nextType;
-			this.plugin.saveSettings();
+			this.viewType = nextType;
 
 			// Update button label
 			viewSwitcherBtn.textContent = this.getViewSwitcherLabel();
@@ -1772,41 +3578,132 @@ class CalendarView extends ItemView {
 		// Add sort order selector
 		const sortSelectorEl = controlsEl.createDiv("sort-selector");
 		const sortBtn = sortSelectorEl.createEl("button", {
-			text: this.plugin.settings.sortOrder === 'desc' ? '↓' : '↑',
+			text: this.sortOrder === 'desc' ? '↓' : '↑',
 			cls: "sort-button"
 		});
-		sortBtn.title = this.plugin.settings.sortOrder === 'desc' ?
+		sortBtn.title = this.sortOrder === 'desc' ?
 			getLocalizedText('timeDescTooltip', this.plugin.settings.language) :
 			getLocalizedText('timeAscTooltip', this.plugin.settings.language);
 		sortBtn.onclick = () => {
-			// Toggle sort order
-			const newSortOrder = this.plugin.settings.sortOrder === 'desc' ? 'asc' : 'desc';
-			this.plugin.settings.sortOrder = newSortOrder;
+			this.setSortOrder(this.sortOrder === 'desc' ? 'asc' : 'desc');
+		};
+
+		// Add calendar axis switcher: created -> modified -> both
+		const axisBtn = controlsEl.createEl("button", {
+			text: this.getAxisLabel(),
+			title: this.getAxisTooltip(),
+			cls: "axis-switcher-btn"
+		});
+		axisBtn.onclick = () => {
+			const axisOrder: CalendarAxis[] = ['created', 'modified', 'both'];
+			const currentIndex = axisOrder.indexOf(this.plugin.settings.calendarAxis);
+			this.plugin.settings.calendarAxis = axisOrder[(currentIndex + 1) % axisOrder.length];
 			this.plugin.saveSettings();
 
-			// Update button text and title
-			sortBtn.textContent = newSortOrder === 'desc' ? '↓' : '↑';
-			sortBtn.title = newSortOrder === 'desc' ?
-				getLocalizedText('timeDescTooltip', this.plugin.settings.language) :
-				getLocalizedText('timeAscTooltip', this.plugin.settings.language);
+			// Re-render with the new axis; the button label is refreshed by renderCalendar
+			const currentRef = (this as any).currentDate || new Date();
+			this.renderCalendar(currentRef, null, monthYearEl);
+		};
+
+		// List / heatmap toggle, only shown in year view
+		const yearModeBtn = controlsEl.createEl("button", { cls: "year-mode-btn" });
+		yearModeBtn.onclick = () => {
+			this.plugin.settings.yearViewMode = this.plugin.settings.yearViewMode === 'heatmap' ? 'list' : 'heatmap';
+			this.plugin.saveSettings();
 
-			// Re-render current view with new sort order
 			const currentRef = (this as any).currentDate || new Date();
 			this.renderCalendar(currentRef, null, monthYearEl);
 		};
 
+		// Folder scope of this calendar
+		const scopeSelect = controlsEl.createEl("select", { cls: "dropdown calendar-scope-select" });
+		scopeSelect.title = getLocalizedText('scopeTooltip', this.plugin.settings.language);
+		// Folders come and go, so list them again whenever the dropdown is about to open
+		scopeSelect.addEventListener('mousedown', () => this.updateScopeSelect());
+		scopeSelect.addEventListener('focus', () => this.updateScopeSelect());
+		scopeSelect.onchange = () => this.setScopeFolder(scopeSelect.value);
+		(this as any).scopeSelect = scopeSelect;
+		this.updateScopeSelect();
+
+		// Tag filter; the chosen tags are listed in their own row below the controls
+		const tagFilterBtn = controlsEl.createEl("button", {
+			text: "#",
+			title: getLocalizedText('tagFilterTooltip', this.plugin.settings.language),
+			cls: "tag-filter-btn"
+		});
+		tagFilterBtn.onclick = () => {
+			new TagSuggestModal(this.app, this.plugin.settings.language, (tag) => this.addTagFilter(tag)).open();
+		};
+		(this as any).tagFilterBtn = tagFilterBtn;
+
+		// Query bar toggle; the bar stays open while a query is set
+		const queryBtn = controlsEl.createEl("button", {
+			cls: "query-toggle-btn",
+			title: getLocalizedText('queryTooltip', this.plugin.settings.language)
+		});
+		setIcon(queryBtn, 'filter');
+		queryBtn.onclick = () => {
+			this.queryBarOpen = !this.queryBarOpen;
+			this.updateQueryBar();
+			if (this.queryBarOpen) {
+				((this as any).queryInput as HTMLInputElement)?.focus();
+			}
+		};
+		(this as any).queryBtn = queryBtn;
+
+		// Search by title and path, optionally by content
+		const searchEl = controlsEl.createDiv("calendar-search");
+		const searchInput = searchEl.createEl("input", {
+			type: "search",
+			cls: "calendar-search-input",
+			placeholder: getLocalizedText('searchPlaceholder', this.plugin.settings.language)
+		});
+		searchInput.title = getLocalizedText('searchTooltip', this.plugin.settings.language);
+		searchInput.value = this.searchQuery;
+		const onSearchInput = debounce(() => this.setSearchQuery(searchInput.value), 250, true);
+		searchInput.addEventListener('input', onSearchInput);
+		searchInput.addEventListener('keydown', (e) => {
+			if (e.key === 'Escape' && searchInput.value) {
+				e.stopPropagation();
+				searchInput.value = '';
+				this.setSearchQuery('');
+			}
+		});
+		const searchContentBtn = searchEl.createEl("button", {
+			cls: "calendar-search-content-btn",
+			title: getLocalizedText('searchContentTooltip', this.plugin.settings.language)
+		});
+		setIcon(searchContentBtn, 'file-search');
+		searchContentBtn.toggleClass('is-active', this.searchContent);
+		searchContentBtn.onclick = () => {
+			this.searchContent = !this.searchContent;
+			searchContentBtn.toggleClass('is-active', this.searchContent);
+			this.setSearchQuery(this.searchQuery);
+		};
+		(this as any).searchInput = searchInput;
+		(this as any).searchContentBtn = searchContentBtn;
+
 		// Store reference to controls for use in render methods
 		(this as any).controlsEl = controlsEl;
+		(this as any).axisBtn = axisBtn;
+		(this as any).yearModeBtn = yearModeBtn;
+		(this as any).sortBtn = sortBtn;
 		(this as any).monthYearEl = monthYearEl;
 
+		// File type filter chips
+		(this as any).typeFilterEl = container.createDiv("calendar-type-filters");
+		(this as any).tagFilterEl = container.createDiv("calendar-tag-filters");
+		(this as any).sourceLegendEl = container.createDiv("calendar-source-legend");
+		this.createQueryBar(container.createDiv("calendar-query-bar"));
+
 		// Create calendar grid container
 		const calendarEl = container.createDiv("calendar-grid");
 
 		// Store reference for dynamic content updates
 		(this as any).calendarEl = calendarEl;
 
-		// Store current date reference
-		const currentDate = new Date();
+		// Store current date reference (setState may already have restored one)
+		const currentDate = (this as any).currentDate || new Date();
 		(this as any).currentDate = currentDate;
 
 		// Render calendar based on current view type
@@ -1827,21 +3724,81 @@ class CalendarView extends ItemView {
 		};
 	}
 
+	// Re-render the current period in place, keeping the timeline scroll position
+	refresh() {
+		const calendarEl = (this as any).calendarEl as HTMLElement;
+		const monthYearEl = (this as any).monthYearEl;
+		if (!calendarEl || !monthYearEl) return;
+
+		const scrollTop = calendarEl.querySelector('.timeline')?.scrollTop || 0;
+		this.renderCalendar((this as any).currentDate || new Date(), null, monthYearEl);
+
+		const timeline = calendarEl.querySelector('.timeline');
+		if (timeline) {
+			timeline.scrollTop = scrollTop;
+		}
+	}
+
 	renderCalendar(date: Date, _daysEl: Element | null, monthYearEl: Element, highlightDate?: Date) {
-		const viewType = this.plugin.settings.calendarViewType;
+		const viewType = this.viewType;
 		const calendarEl = (this as any).calendarEl;
 
 		// Clear existing content
 		calendarEl.empty();
+		this.yearTimeline = null;
+
+		this.renderTypeFilterChips();
+		this.renderTagFilterChips();
+		this.renderSourceLegend();
+
+		// Keep the axis button in sync when the axis was changed from settings
+		const axisBtn = (this as any).axisBtn;
+		if (axisBtn) {
+			axisBtn.textContent = this.getAxisLabel();
+			axisBtn.title = this.getAxisTooltip();
+		}
+
+		const yearModeBtn = (this as any).yearModeBtn as HTMLElement;
+		if (yearModeBtn) {
+			const language = this.plugin.settings.language;
+			const isHeatmap = this.plugin.settings.yearViewMode === 'heatmap';
+			// The button shows the mode it switches to
+			yearModeBtn.textContent = getLocalizedText(isHeatmap ? 'yearModeList' : 'yearModeHeatmap', language);
+			yearModeBtn.title = getLocalizedText('yearModeTooltip', language)
+				.replace('{current}', getLocalizedText(isHeatmap ? 'yearModeHeatmapName' : 'yearModeListName', language));
+			yearModeBtn.toggleClass('is-hidden', viewType !== 'year');
+		}
 
 		switch (viewType) {
 			case 'month':
 				this.renderMonthView(date, calendarEl, monthYearEl, highlightDate);
 				break;
+			case 'week':
+				this.renderWeekView(date, calendarEl, monthYearEl, highlightDate);
+				break;
+			case 'day':
+				this.renderDayView(date, calendarEl, monthYearEl, highlightDate);
+				break;
 			case 'year':
-				this.renderYearView(date, calendarEl, monthYearEl, highlightDate);
+				if (this.plugin.settings.yearViewMode === 'heatmap') {
+					this.renderYearHeatmap(date, calendarEl, monthYearEl);
+				} else {
+					this.renderYearView(date, calendarEl, monthYearEl, highlightDate);
+				}
+				break;
+			case 'decade':
+				this.renderDecadeView(date, calendarEl, monthYearEl);
+				break;
+			case 'agenda':
+				this.renderAgendaView(date, calendarEl, monthYearEl, highlightDate);
+				break;
+			case 'onThisDay':
+				this.renderOnThisDayView(date, calendarEl, monthYearEl, highlightDate);
 				break;
 		}
+
+		// Persist this calendar's view type, date, sort and filters with the layout
+		this.app.workspace.requestSaveLayout();
 	}
 
 	
@@ -1869,7 +3826,15 @@ class CalendarView extends ItemView {
 			weekdays = [weekdayNames[0], weekdayNames[1], weekdayNames[2], weekdayNames[3], weekdayNames[4], weekdayNames[5], weekdayNames[6]];
 		}
 
+		const weekNumbers = this.plugin.settings.weekNumbers;
 		const weekdayHeadersEl = calendarEl.createDiv("weekday-headers");
+		if (weekNumbers !== 'none') {
+			weekdayHeadersEl.addClass("with-week-numbers");
+			weekdayHeadersEl.createEl("div", {
+				text: getLocalizedText('weekNumberHeader', this.plugin.settings.language),
+				cls: "weekday-header week-number-header"
+			});
+		}
 
 		weekdays.forEach(day => {
 			weekdayHeadersEl.createEl("div", { text: day, cls: "weekday-header" });
@@ -1877,6 +3842,13 @@ class CalendarView extends ItemView {
 
 		const daysEl = calendarEl.createDiv("calendar-days month-view");
 
+		// Detailed cells list note titles, as long as the pane is wide enough for them
+		const detailed = this.isDetailedMonthLayout();
+		(this as any).renderedDetailedMonth = detailed;
+		if (detailed) {
+			daysEl.addClass("detailed");
+		}
+
 		// Calculate the first day of month, adjusted for user's preference
 		let firstDayOfMonth = new Date(year, month, 1).getDay();
 
@@ -1888,32 +3860,52 @@ class CalendarView extends ItemView {
 
 		const daysInMonth = new Date(year, month + 1, 0).getDate();
 
-		// Get all notes for this month
-		const notes = this.plugin.app.vault.getMarkdownFiles();
-		const notesByDate: { [key: string]: TFile[] } = {};
-
-		notes.forEach(note => {
-			const noteDate = new Date(note.stat.mtime);
-			if (noteDate.getFullYear() === year && noteDate.getMonth() === month) {
-				const dateKey = noteDate.getDate().toString();
-				if (!notesByDate[dateKey]) {
-					notesByDate[dateKey] = [];
-				}
-				notesByDate[dateKey].push(note);
-			}
-		});
+		const dateIndex = this.plugin.dateIndex;
+		const axis = this.plugin.settings.calendarAxis;
+		const kinds = getAxisKinds(axis);
+
+		// Week number cell at the start of every row
+		const addWeekNumber = (cellIndex: number) => {
+			if (weekNumbers === 'none' || cellIndex % 7 !== 0) return;
+			const rowStart = new Date(year, month, 1 - firstDayOfMonth + cellIndex);
+			const { week, year: weekYear } = getWeekNumber(rowStart, weekNumbers, firstDayOfWeek);
+			const weekEl = daysEl.createEl("div", { text: week.toString(), cls: "calendar-week-number" });
+			weekEl.title = getLocalizedText('weekNumberTooltip', this.plugin.settings.language)
+				.replace('{week}', week.toString())
+				.replace('{year}', weekYear.toString());
+			weekEl.onclick = () => {
+				this.switchViewType('week', rowStart);
+			};
+		};
+		if (weekNumbers !== 'none') {
+			daysEl.addClass("with-week-numbers");
+		}
 
 		// Add empty cells for days before month starts (using adjusted firstDayOfMonth)
 		for (let i = 0; i < firstDayOfMonth; i++) {
+			addWeekNumber(i);
 			daysEl.createEl("div", { cls: "calendar-day empty" });
 		}
 
 		// Add days of the month
 		for (let day = 1; day <= daysInMonth; day++) {
-			const dayEl = daysEl.createEl("div", {
+			addWeekNumber(firstDayOfMonth + day - 1);
+			const dayEl = daysEl.createEl("div", { cls: "calendar-day" });
+
+			// Clicking the day number drills down into the day view
+			const dayNumberEl = dayEl.createEl("span", {
 				text: day.toString(),
-				cls: "calendar-day"
+				cls: "calendar-day-number"
 			});
+			dayNumberEl.title = getLocalizedText('openDayViewTooltip', this.plugin.settings.language);
+			dayNumberEl.onclick = (e) => {
+				e.stopPropagation();
+				if (Keymap.isModifier(e, 'Mod')) {
+					this.createNoteForDay(year, month, day);
+					return;
+				}
+				this.switchViewType('day', new Date(year, month, day));
+			};
 
 			const currentDate = new Date(year, month, day);
 			const today = new Date();
@@ -1932,26 +3924,87 @@ class CalendarView extends ItemView {
 				dayEl.addClass("highlighted-date");
 			}
 
-			const dayNotes = notesByDate[day.toString()];
-			if (dayNotes && dayNotes.length > 0) {
+			// While searching, days with notes but no hits are dimmed rather than emptied
+			const allDayNotes = dateIndex.getNotesForDay(year, month, day, kinds).filter(note => this.passesFilters(note));
+			const matchingNotes = allDayNotes.filter(note => this.matchesSearch(note.file));
+			const noHits = matchingNotes.length === 0 && allDayNotes.length > 0;
+			const dayNotes = noHits ? allDayNotes : matchingNotes;
+			if (dayNotes.length > 0) {
 				dayEl.addClass("has-notes");
+				dayEl.toggleClass("search-no-hits", this.searchQuery !== '' && noHits);
+				dayEl.toggleClass("search-hits", this.searchQuery !== '' && !noHits);
+
+				dayEl.onclick = () => {
+					this.showNotesForDate(day, month, year, noHits);
+				};
+
+				if (axis === 'both') {
+					// Separate counts for notes created vs edited on this day
+					const createdCount = dayNotes.filter(note => note.kind === 'created').length;
+					const modifiedCount = dayNotes.length - createdCount;
+					const countsEl = dayEl.createEl("span", { cls: "note-count note-count-split" });
+					if (createdCount > 0) {
+						countsEl.createEl("span", { text: `+${createdCount}`, cls: "note-count-created" });
+					}
+					if (modifiedCount > 0) {
+						countsEl.createEl("span", { text: `✎${modifiedCount}`, cls: "note-count-modified" });
+					}
+
+					dayEl.title = getLocalizedText('dayCountsTooltip', this.plugin.settings.language)
+						.replace('{created}', createdCount.toString())
+						.replace('{modified}', modifiedCount.toString());
+				} else {
+					dayEl.createEl("span", {
+						text: ` (${dayNotes.length})`,
+						cls: "note-count"
+					});
+
+					dayEl.title = `Click to see ${dayNotes.length} note(s)`;
+				}
+
+				this.renderSourceDots(dayEl, dayNotes);
+				this.renderTagDots(dayEl, dayNotes);
+
+				if (detailed) {
+					this.renderDayCellTitles(dayEl, dayNotes, day, month, year);
+				}
+			}
+
+			// Days referenced inside notes get their own marker
+			const mentionNotes = this.plugin.settings.showMentions ?
+				this.filterNotes(dateIndex.getNotesForDay(year, month, day, ['mentioned'])) : [];
+			if (mentionNotes.length > 0) {
+				dayEl.addClass("has-mentions");
 				dayEl.createEl("span", {
-					text: ` (${dayNotes.length})`,
-					cls: "note-count"
+					text: `@${mentionNotes.length}`,
+					cls: "mention-marker"
 				});
 
 				dayEl.onclick = () => {
-					this.showNotesForDate(dayNotes, day, month, year);
+					this.showNotesForDate(day, month, year);
 				};
 
-				dayEl.title = `Click to see ${dayNotes.length} note(s)`;
+				const mentionsTooltip = getLocalizedText('mentionsTooltip', this.plugin.settings.language)
+					.replace('{count}', mentionNotes.length.toString());
+				dayEl.title = dayEl.title ? `${dayEl.title}\n${mentionsTooltip}` : mentionsTooltip;
 			}
+
+			// Empty days create a note for their date; Ctrl/Cmd-click creates one on any day
+			const openDay = dayEl.onclick;
+			dayEl.addClass("can-create-note");
+			dayEl.onclick = (e) => {
+				if (openDay && !Keymap.isModifier(e, 'Mod')) {
+					openDay.call(dayEl, e);
+					return;
+				}
+				this.createNoteForDay(year, month, day);
+			};
+			const createTooltip = getLocalizedText(openDay ? 'createNoteModTooltip' : 'createNoteForDayTooltip', this.plugin.settings.language);
+			dayEl.title = dayEl.title ? `${dayEl.title}\n${createTooltip}` : createTooltip;
 		}
 	}
 
 	renderWeekView(date: Date, calendarEl: Element, monthYearEl: Element, highlightDate?: Date) {
-		const year = date.getFullYear();
-
 		// Add proper CSS classes to calendarEl for layout
 		calendarEl.addClass('calendar-view');
 		calendarEl.addClass('calendar-content');
@@ -1972,37 +4025,19 @@ class CalendarView extends ItemView {
 		// Update display to show week range
 		const endOfWeek = new Date(startOfWeek);
 		endOfWeek.setDate(startOfWeek.getDate() + 6);
-		const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-			'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-		monthYearEl.textContent = `${monthNames[startOfWeek.getMonth()]} ${startOfWeek.getDate()} - ${monthNames[endOfWeek.getMonth()]} ${endOfWeek.getDate()}, ${year}`;
+		monthYearEl.textContent = this.formatWeekRange(startOfWeek, endOfWeek);
 
 		// Create week view container with timeline layout
 		const weekContainer = calendarEl.createDiv("week-view-timeline-container");
 
-		// Get all notes for this week and sort by modification time
-		const notes = this.plugin.app.vault.getMarkdownFiles();
-		const weekNotes: Array<{ note: TFile; noteDate: Date }> = [];
-
-		// Debug: log the week range
-		console.log('Week range:', startOfWeek.toISOString(), 'to', endOfWeek.toISOString());
-
-		// Find notes modified within this week
-		notes.forEach(note => {
-			const noteDate = new Date(note.stat.mtime);
-			noteDate.setHours(0, 0, 0, 0);
-
-			// Check if note date is within the current week
-			if (noteDate >= startOfWeek && noteDate <= endOfWeek) {
-				weekNotes.push({ note, noteDate });
-				console.log('Found note in week:', note.basename, noteDate.toISOString());
-			}
-		});
+		// Get all notes for this week from the date index
+		const weekNotes = this.filterNotes(this.plugin.dateIndex.getNotesInRange(startOfWeek, endOfWeek, getAxisKinds(this.plugin.settings.calendarAxis)));
 
 		// Sort notes by modification time according to settings
-		if (this.plugin.settings.sortOrder === 'desc') {
-			weekNotes.sort((a, b) => b.note.stat.mtime - a.note.stat.mtime);
+		if (this.sortOrder === 'desc') {
+			weekNotes.sort((a, b) => b.date.getTime() - a.date.getTime());
 		} else {
-			weekNotes.sort((a, b) => a.note.stat.mtime - b.note.stat.mtime);
+			weekNotes.sort((a, b) => a.date.getTime() - b.date.getTime());
 		}
 
 		// Create timeline
@@ -2017,80 +4052,503 @@ class CalendarView extends ItemView {
 			return;
 		}
 
-		// Add each note to timeline
-		weekNotes.forEach(({ note, noteDate }) => {
-			// Use original modification time
-			const originalModTime = new Date(note.stat.mtime);
-			const timelineItem = timeline.createDiv("timeline-item");
-
-			// Timeline dot (positioned for week view with 3-line datetime display)
-			const timelineDot = timelineItem.createDiv("timeline-dot week-timeline-dot");
+		// Add each note to timeline
+		weekNotes.forEach(dated => this.renderTimelineItem(timeline, dated, highlightDate));
+	}
+
+	// Timeline entry shared by the week and agenda views: date indicator, title, path and preview
+	renderTimelineItem(timeline: HTMLElement, dated: DatedNote, highlightDate?: Date) {
+		const { file: note, date: noteDate, kind } = dated;
+		// Use original modification time
+		const originalModTime = noteDate;
+		const timelineItem = timeline.createDiv(`timeline-item timeline-item-${kind}`);
+
+		// Timeline dot (positioned for week view with 3-line datetime display)
+		const timelineDot = timelineItem.createDiv("timeline-dot week-timeline-dot");
+		this.plugin.applySourceColor(timelineDot, note, this.hiddenSources);
+
+		// Date and time indicator (left side)
+		const dateTimeIndicator = timelineItem.createDiv("timeline-datetime");
+
+		// Localize weekday names
+		const weekdayNames = getWeekdayNames(this.plugin.settings.language);
+		const localeString = this.plugin.settings.language === 'en' ? 'en-US' : 'zh-CN';
+
+		dateTimeIndicator.innerHTML = `
+			<div class="timeline-date">${String(originalModTime.getDate()).padStart(2, '0')}</div>
+			<div class="timeline-weekday">${weekdayNames[originalModTime.getDay()]}</div>
+			<div class="timeline-time">${originalModTime.toLocaleTimeString(localeString, {
+				hour: '2-digit',
+				minute: '2-digit',
+				second: '2-digit',
+				hour12: false
+			})}</div>
+		`;
+		this.addDateKindBadge(dateTimeIndicator, kind);
+
+		// Note content area
+		const noteContent = timelineItem.createDiv("timeline-note-content");
+
+		// Make the entire note content clickable
+		noteContent.style.cursor = 'pointer';
+		noteContent.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.app.workspace.getLeaf().openFile(note);
+		};
+
+		// Note title
+		const noteTitle = noteContent.createEl("div", { cls: "timeline-note-title" });
+		renderSearchHighlight(noteTitle, note.basename, this.searchQuery);
+		if (this.plugin.getIncludedFileCategories().length > 1) {
+			addFileTypeIcon(noteTitle, note);
+		}
+
+		// Note path
+		const notePath = noteContent.createEl("div", {
+			text: note.path,
+			cls: "timeline-note-path"
+		});
+
+		this.plugin.addTagChips(noteContent, note);
+
+		// Add first line of note content
+		this.plugin.previews.attach(noteContent, note, this.searchQuery);
+
+		// Add hover effects and tooltip
+		timelineItem.title = `${note.basename}\n路径: ${note.path}\n修改时间: ${noteDate.toLocaleString('zh-CN')}`;
+
+		// Check if this note should be highlighted
+		if (highlightDate &&
+			noteDate.getFullYear() === highlightDate.getFullYear() &&
+			noteDate.getMonth() === highlightDate.getMonth() &&
+			noteDate.getDate() === highlightDate.getDate()) {
+			timelineItem.addClass("highlighted-note");
+		}
+
+		// Mark if modified today
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+		const noteDay = new Date(noteDate);
+		noteDay.setHours(0, 0, 0, 0);
+
+		if (noteDay.getTime() === today.getTime()) {
+			timelineItem.addClass("today-note");
+		}
+	}
+
+	renderDayView(date: Date, calendarEl: Element, monthYearEl: Element, highlightDate?: Date) {
+		const language = this.plugin.settings.language;
+		const year = date.getFullYear();
+		const month = date.getMonth();
+		const day = date.getDate();
+
+		calendarEl.addClass('calendar-view');
+		calendarEl.addClass('calendar-content');
+
+		monthYearEl.textContent = this.formatDayHeading(date);
+
+		const dayContainer = calendarEl.createDiv("day-view-container");
+
+		// Day mentions carry no time of day, so they go above the hour axis
+		const dayNotes = this.filterNotes(this.plugin.dateIndex.getNotesForDay(year, month, day, getAxisKinds(this.plugin.settings.calendarAxis)));
+		const mentionNotes = this.plugin.settings.showMentions ?
+			this.filterNotes(this.plugin.dateIndex.getNotesForDay(year, month, day, ['mentioned'])) : [];
+
+		if (dayNotes.length === 0 && mentionNotes.length === 0) {
+			const noNotes = dayContainer.createDiv("no-notes-message");
+			noNotes.textContent = getLocalizedText('noNotesThisDay', language);
+		}
+
+		if (mentionNotes.length > 0) {
+			const allDayEl = dayContainer.createDiv("day-view-all-day");
+			allDayEl.createDiv({ text: getLocalizedText('allDay', language), cls: "day-view-all-day-label" });
+			const allDayNotesEl = allDayEl.createDiv("day-view-all-day-notes");
+			mentionNotes.forEach(note => {
+				this.renderDayViewEntry(allDayNotesEl, note, highlightDate);
+			});
+		}
+
+		// The hour axis scrolls on its own; the "timeline" class lets refresh() keep its position
+		const hoursEl = dayContainer.createDiv("timeline day-view-hours");
+		const axisEl = hoursEl.createDiv("day-view-axis");
+		axisEl.style.height = `${24 * DAY_VIEW_HOUR_HEIGHT}px`;
+		for (let hour = 0; hour < 24; hour++) {
+			const hourRow = axisEl.createDiv("day-view-hour");
+			hourRow.style.top = `${hour * DAY_VIEW_HOUR_HEIGHT}px`;
+			hourRow.createSpan({ text: `${String(hour).padStart(2, '0')}:00`, cls: "day-view-hour-label" });
+		}
+
+		const entriesEl = axisEl.createDiv("day-view-entries");
+		const sortedNotes = [...dayNotes].sort((a, b) => a.date.getTime() - b.date.getTime());
+		layoutDayViewEntries(sortedNotes).forEach(({ note, column, columns }) => {
+			const entryEl = this.renderDayViewEntry(entriesEl, note, highlightDate);
+			const minutes = note.date.getHours() * 60 + note.date.getMinutes();
+			entryEl.style.top = `${minutes / 60 * DAY_VIEW_HOUR_HEIGHT}px`;
+			entryEl.style.height = `${DAY_VIEW_ENTRY_HEIGHT}px`;
+			entryEl.style.left = `${column / columns * 100}%`;
+			entryEl.style.width = `calc(${100 / columns}% - 4px)`;
+		});
+
+		// Start scrolled to the first note of the day (or the start of the working day)
+		const firstHour = sortedNotes.length > 0 ? sortedNotes[0].date.getHours() : 8;
+		hoursEl.scrollTop = Math.max(0, firstHour - 1) * DAY_VIEW_HOUR_HEIGHT;
+	}
+
+	renderDayViewEntry(container: HTMLElement, dated: DatedNote, highlightDate?: Date): HTMLElement {
+		const { file: note, date: noteDate, kind } = dated;
+		const entryEl = container.createDiv(`day-view-entry timeline-item-${kind}`);
+
+		const titleEl = entryEl.createDiv({ cls: "day-view-entry-title" });
+		renderSearchHighlight(titleEl, note.basename, this.searchQuery);
+		if (this.plugin.getIncludedFileCategories().length > 1) {
+			addFileTypeIcon(titleEl, note);
+		}
+
+		if (kind !== 'mentioned') {
+			const localeString = this.plugin.settings.language === 'en' ? 'en-US' : 'zh-CN';
+			const timeEl = entryEl.createDiv({
+				text: noteDate.toLocaleTimeString(localeString, { hour: '2-digit', minute: '2-digit', hour12: false }),
+				cls: "day-view-entry-time"
+			});
+			this.addDateKindBadge(timeEl, kind);
+		}
+
+		entryEl.title = `${note.basename}\n${note.path}\n${noteDate.toLocaleString(this.plugin.settings.language === 'en' ? 'en-US' : 'zh-CN')}`;
+		entryEl.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.plugin.app.workspace.getLeaf().openFile(note);
+		};
+
+		if (highlightDate && noteDate.getTime() === highlightDate.getTime()) {
+			entryEl.addClass("highlighted-note");
+		}
+
+		return entryEl;
+	}
+
+	// Sort order of this calendar only; the setting is the default for new calendars
+	setSortOrder(sortOrder: 'desc' | 'asc') {
+		this.sortOrder = sortOrder;
+		this.updateSortButton();
+		this.refresh();
+	}
+
+	updateSortButton() {
+		const sortBtn = (this as any).sortBtn as HTMLElement;
+		if (!sortBtn) return;
+		sortBtn.textContent = this.sortOrder === 'desc' ? '↓' : '↑';
+		sortBtn.title = this.sortOrder === 'desc' ?
+			getLocalizedText('timeDescTooltip', this.plugin.settings.language) :
+			getLocalizedText('timeAscTooltip', this.plugin.settings.language);
+	}
+
+	// Switch to another view type, e.g. when drilling down from a month cell into its day
+	switchViewType(viewType: CalendarViewType, date: Date, highlightDate?: Date) {
+		this.viewType = viewType;
+
+		const viewSwitcherBtn = (this as any).viewSwitcherBtn;
+		if (viewSwitcherBtn) {
+			viewSwitcherBtn.textContent = this.getViewSwitcherLabel();
+			viewSwitcherBtn.title = this.getViewSwitcherTooltip();
+		}
+
+		(this as any).currentDate = new Date(date);
+		this.renderCalendar(new Date(date), null, (this as any).monthYearEl, highlightDate);
+	}
+
+	renderAgendaView(date: Date, calendarEl: Element, monthYearEl: Element, highlightDate?: Date) {
+		const language = this.plugin.settings.language;
+		monthYearEl.textContent = getLocalizedText('agendaView', language);
+
+		calendarEl.addClass('calendar-view');
+		calendarEl.addClass('calendar-content');
+
+		const agendaEl = calendarEl.createDiv("agenda-view");
+
+		// Jump to date field and a shortcut back to today
+		const jumpEl = agendaEl.createDiv("agenda-jump");
+		const dateInput = jumpEl.createEl("input", { type: "date", cls: "agenda-jump-input" });
+		dateInput.value = getDayKey(date);
+		dateInput.title = getLocalizedText('agendaJumpTooltip', language);
+		dateInput.onchange = () => {
+			const target = moment(dateInput.value, 'YYYY-MM-DD', true);
+			if (target.isValid()) {
+				this.switchViewType('agenda', target.toDate());
+			}
+		};
+		const todayBtn = jumpEl.createEl("button", { text: getLocalizedText('agendaToday', language), cls: "agenda-today-btn" });
+		todayBtn.onclick = () => this.switchViewType('agenda', new Date());
+
+		// Newest first, starting at the selected day
+		const kinds = getAxisKinds(this.plugin.settings.calendarAxis);
+		const startKey = getDayKey(date);
+		const dayKeys = this.plugin.dateIndex.getDayKeys(kinds).filter(dayKey => dayKey <= startKey).reverse();
+
+		const feedEl = agendaEl.createDiv("timeline agenda-feed");
+		let nextIndex = 0;
+
+		const loadMore = () => {
+			let renderedDays = 0;
+			while (nextIndex < dayKeys.length && renderedDays < AGENDA_BATCH_DAYS) {
+				const day = moment(dayKeys[nextIndex++], 'YYYY-MM-DD');
+				const dayNotes = this.filterNotes(this.plugin.dateIndex.getNotesForDay(day.year(), day.month(), day.date(), kinds));
+				if (dayNotes.length === 0) continue;
+
+				if (this.sortOrder === 'desc') {
+					dayNotes.sort((a, b) => b.date.getTime() - a.date.getTime());
+				} else {
+					dayNotes.sort((a, b) => a.date.getTime() - b.date.getTime());
+				}
+
+				const daySection = feedEl.createDiv("agenda-day");
+				daySection.createDiv({ text: this.formatDayHeading(day.toDate()), cls: "agenda-day-header" });
+				dayNotes.forEach(dated => this.renderTimelineItem(daySection, dated, highlightDate));
+				renderedDays++;
+			}
+
+			if (nextIndex >= dayKeys.length && !feedEl.querySelector('.agenda-end')) {
+				feedEl.createDiv({ text: getLocalizedText('agendaEnd', language), cls: "agenda-end no-notes-message" });
+			}
+		};
+
+		// Load older days as the end of the feed comes into view
+		feedEl.addEventListener('scroll', () => {
+			if (feedEl.scrollTop + feedEl.clientHeight >= feedEl.scrollHeight - AGENDA_LOAD_THRESHOLD) {
+				loadMore();
+			}
+		});
+
+		loadMore();
+		// Keep loading until the feed can scroll, so the scroll handler has something to react to
+		while (nextIndex < dayKeys.length && feedEl.clientHeight > 0 && feedEl.scrollHeight <= feedEl.clientHeight) {
+			loadMore();
+		}
+	}
+
+	renderOnThisDayView(date: Date, calendarEl: Element, monthYearEl: Element, highlightDate?: Date) {
+		const language = this.plugin.settings.language;
+		const month = date.getMonth();
+		const day = date.getDate();
+		const shortMonthNames = getShortMonthNames(language);
+		const dayText = language === 'en' ? `${shortMonthNames[month]} ${day}` : `${shortMonthNames[month]}${day}日`;
+		monthYearEl.textContent = `${getLocalizedText('onThisDayView', language)} · ${dayText}`;
+
+		calendarEl.addClass('calendar-view');
+		calendarEl.addClass('calendar-content');
+
+		const container = calendarEl.createDiv("on-this-day-container");
+		const kinds = getAxisKinds(this.plugin.settings.calendarAxis);
+		const years = this.plugin.dateIndex.getNotesOnThisDay(month, day, date.getFullYear(), kinds)
+			.map(({ year, notes }) => ({ year, notes: this.filterNotes(notes) }))
+			.filter(({ notes }) => notes.length > 0);
+
+		if (years.length === 0) {
+			container.createDiv({ text: getLocalizedText('noNotesOnThisDay', language), cls: "no-notes-message" });
+			return;
+		}
+
+		years.forEach(({ year, notes }) => {
+			const headerEl = container.createDiv("on-this-day-year-header");
+			headerEl.createSpan({ text: `${year}`, cls: "on-this-day-year" });
+			headerEl.createSpan({
+				text: getLocalizedText('onThisDayYearsAgo', language).replace('{years}', (date.getFullYear() - year).toString()),
+				cls: "on-this-day-years-ago"
+			});
+
+			if (this.sortOrder === 'desc') {
+				notes.sort((a, b) => b.date.getTime() - a.date.getTime());
+			} else {
+				notes.sort((a, b) => a.date.getTime() - b.date.getTime());
+			}
+
+			const timeline = container.createDiv("timeline");
+			notes.forEach(dated => this.renderTimelineItem(timeline, dated, highlightDate));
+		});
+	}
+
+	renderDecadeView(date: Date, calendarEl: Element, monthYearEl: Element) {
+		const language = this.plugin.settings.language;
+		const decadeStart = Math.floor(date.getFullYear() / 10) * 10;
+		monthYearEl.textContent = `${decadeStart} - ${decadeStart + 9}`;
+
+		calendarEl.addClass('calendar-view');
+		calendarEl.addClass('calendar-content');
+
+		const kinds = getAxisKinds(this.plugin.settings.calendarAxis);
+		const decadeEl = calendarEl.createDiv("decade-view");
+
+		const firstNoteBtn = decadeEl.createEl("button", {
+			text: getLocalizedText('jumpToFirstNote', language),
+			title: getLocalizedText('jumpToFirstNoteTooltip', language),
+			cls: "decade-first-note-btn"
+		});
+		firstNoteBtn.onclick = () => this.jumpToFirstNote();
+
+		// Count every month first so shading is relative to the busiest month of the decade
+		const counts: number[][] = [];
+		let maxCount = 0;
+		for (let offset = 0; offset < 10; offset++) {
+			const monthCounts: number[] = [];
+			for (let month = 0; month < 12; month++) {
+				const count = this.filterNotes(this.plugin.dateIndex.getNotesForMonth(decadeStart + offset, month, kinds)).length;
+				monthCounts.push(count);
+				maxCount = Math.max(maxCount, count);
+			}
+			counts.push(monthCounts);
+		}
+
+		const shortMonthNames = getShortMonthNames(language);
+		const monthNames = getMonthNames(language);
+		const headerRow = decadeEl.createDiv("decade-row decade-header-row");
+		headerRow.createDiv("decade-year-label");
+		shortMonthNames.forEach(name => {
+			headerRow.createDiv({ text: name, cls: "decade-month-header" });
+		});
+
+		const currentYear = new Date().getFullYear();
+		counts.forEach((monthCounts, offset) => {
+			const year = decadeStart + offset;
+			const rowEl = decadeEl.createDiv("decade-row");
+			if (year === currentYear) {
+				rowEl.addClass("is-current-year");
+			}
+
+			const yearTotal = monthCounts.reduce((total, count) => total + count, 0);
+			const yearEl = rowEl.createDiv({ text: `${year}`, cls: "decade-year-label" });
+			yearEl.title = `${getLocalizedText('decadeYearTooltip', language).replace('{year}', year.toString())} (${yearTotal})`;
+			yearEl.onclick = () => this.switchViewType('year', new Date(year, 0, 1));
+
+			monthCounts.forEach((count, month) => {
+				const level = count === 0 ? 0 : Math.ceil(count / maxCount * 4);
+				const cellEl = rowEl.createDiv(`decade-month-cell heatmap-level-${level}`);
+				cellEl.title = getLocalizedText('decadeMonthTooltip', language)
+					.replace('{month}', monthNames[month])
+					.replace('{year}', year.toString())
+					.replace('{count}', count.toString());
+				cellEl.onclick = () => this.switchViewType('month', new Date(year, month, 1));
+			});
+		});
+	}
+
+	// Open the month of the oldest note that passes the current filters
+	jumpToFirstNote() {
+		const kinds = getAxisKinds(this.plugin.settings.calendarAxis);
+		const firstDay = this.plugin.dateIndex.getDayKeys(kinds).find(dayKey => {
+			const day = moment(dayKey, 'YYYY-MM-DD');
+			return this.filterNotes(this.plugin.dateIndex.getNotesForDay(day.year(), day.month(), day.date(), kinds)).length > 0;
+		});
+
+		if (!firstDay) {
+			new Notice(getLocalizedText('noDatedNotes', this.plugin.settings.language));
+			return;
+		}
+
+		const date = moment(firstDay, 'YYYY-MM-DD').toDate();
+		this.switchViewType('month', date, date);
+	}
 
-			// Date and time indicator (left side)
-			const dateTimeIndicator = timelineItem.createDiv("timeline-datetime");
+	renderYearHeatmap(date: Date, calendarEl: Element, monthYearEl: Element) {
+		const language = this.plugin.settings.language;
+		const year = date.getFullYear();
+		monthYearEl.textContent = `${year}`;
 
-			// Localize weekday names
-			const weekdayNames = getWeekdayNames(this.plugin.settings.language);
-			const localeString = this.plugin.settings.language === 'en' ? 'en-US' : 'zh-CN';
+		calendarEl.addClass('calendar-view');
+		calendarEl.addClass('calendar-content');
 
-			dateTimeIndicator.innerHTML = `
-				<div class="timeline-date">${String(originalModTime.getDate()).padStart(2, '0')}</div>
-				<div class="timeline-weekday">${weekdayNames[originalModTime.getDay()]}</div>
-				<div class="timeline-time">${originalModTime.toLocaleTimeString(localeString, {
-					hour: '2-digit',
-					minute: '2-digit',
-					second: '2-digit',
-					hour12: false
-				})}</div>
-			`;
+		const kinds = getAxisKinds(this.plugin.settings.calendarAxis);
+		const firstDayOfWeek = this.plugin.settings.calendarFirstDayOfWeek;
 
-			// Note content area
-			const noteContent = timelineItem.createDiv("timeline-note-content");
+		// The grid starts on the first day of the week containing January 1st
+		const gridStart = new Date(year, 0, 1);
+		const leadingDays = (gridStart.getDay() - firstDayOfWeek + 7) % 7;
+		gridStart.setDate(gridStart.getDate() - leadingDays);
+		const daysInYear = this.getDayOfYear(new Date(year, 11, 31)) + 1;
+		const weekCount = Math.ceil((leadingDays + daysInYear) / 7);
+
+		// Count notes per day first so intensity can be scaled to the busiest day
+		const counts = new Map<string, number>();
+		let maxCount = 0;
+		for (let month = 0; month < 12; month++) {
+			const daysInMonth = new Date(year, month + 1, 0).getDate();
+			for (let day = 1; day <= daysInMonth; day++) {
+				const count = this.filterNotes(this.plugin.dateIndex.getNotesForDay(year, month, day, kinds)).length;
+				if (count > 0) {
+					counts.set(getDayKey(new Date(year, month, day)), count);
+					maxCount = Math.max(maxCount, count);
+				}
+			}
+		}
 
-			// Make the entire note content clickable
-			noteContent.style.cursor = 'pointer';
-			noteContent.onclick = (e) => {
-				e.preventDefault();
-				e.stopPropagation();
-				this.plugin.app.workspace.getLeaf().openFile(note);
-			};
+		const heatmapEl = calendarEl.createDiv("year-heatmap");
+		heatmapEl.style.setProperty('--heatmap-weeks', weekCount.toString());
+
+		// Month labels above the first week that starts in each month
+		const shortMonthNames = getShortMonthNames(language);
+		const monthLabelsEl = heatmapEl.createDiv("year-heatmap-months");
+		for (let month = 0; month < 12; month++) {
+			const firstOfMonth = new Date(year, month, 1);
+			const week = Math.floor((leadingDays + this.getDayOfYear(firstOfMonth)) / 7);
+			const labelEl = monthLabelsEl.createSpan({ text: shortMonthNames[month], cls: "year-heatmap-month" });
+			labelEl.style.gridColumn = `${week + 1}`;
+		}
 
-			// Note title
-			const noteTitle = noteContent.createEl("div", {
-				text: note.basename,
-				cls: "timeline-note-title"
+		// Weekday labels on alternate rows
+		const weekdayNames = getWeekdayNames(language);
+		const weekdaysEl = heatmapEl.createDiv("year-heatmap-weekdays");
+		for (let row = 0; row < 7; row++) {
+			weekdaysEl.createSpan({
+				text: row % 2 === 1 ? weekdayNames[(firstDayOfWeek + row) % 7] : '',
+				cls: "year-heatmap-weekday"
 			});
+		}
 
-			// Note path
-			const notePath = noteContent.createEl("div", {
-				text: note.path,
-				cls: "timeline-note-path"
-			});
+		const gridEl = heatmapEl.createDiv("year-heatmap-grid");
+		const today = getDayKey(new Date());
+		const cursor = new Date(gridStart);
+		for (let i = 0; i < weekCount * 7; i++) {
+			const cellEl = gridEl.createDiv("year-heatmap-cell");
 
-			// Add first line of note content
-			this.addFirstLineToTimeline(noteContent, note);
+			if (cursor.getFullYear() !== year) {
+				cellEl.addClass("is-outside");
+			} else {
+				const dayKey = getDayKey(cursor);
+				const count = counts.get(dayKey) || 0;
+				const level = count === 0 ? 0 : Math.ceil(count / maxCount * 4);
+				cellEl.addClass(`heatmap-level-${level}`);
+				if (dayKey === today) {
+					cellEl.addClass("is-today");
+				}
 
-			// Add hover effects and tooltip
-			timelineItem.title = `${note.basename}\n路径: ${note.path}\n修改时间: ${noteDate.toLocaleString('zh-CN')}`;
+				cellEl.title = getLocalizedText('heatmapTooltip', language)
+					.replace('{date}', moment(cursor).format(this.plugin.settings.dateFormat))
+					.replace('{count}', count.toString());
 
-			// Check if this note should be highlighted
-			if (highlightDate &&
-				noteDate.getFullYear() === highlightDate.getFullYear() &&
-				noteDate.getMonth() === highlightDate.getMonth() &&
-				noteDate.getDate() === highlightDate.getDate()) {
-				timelineItem.addClass("highlighted-note");
+				if (count > 0) {
+					const day = cursor.getDate();
+					const month = cursor.getMonth();
+					cellEl.onclick = () => {
+						this.showNotesForDate(day, month, year);
+					};
+				}
 			}
 
-			// Mark if modified today
-			const today = new Date();
-			today.setHours(0, 0, 0, 0);
-			const noteDay = new Date(noteDate);
-			noteDay.setHours(0, 0, 0, 0);
+			cursor.setDate(cursor.getDate() + 1);
+		}
 
-			if (noteDay.getTime() === today.getTime()) {
-				timelineItem.addClass("today-note");
-			}
-	});
+		// Legend
+		const legendEl = calendarEl.createDiv("year-heatmap-legend");
+		legendEl.createSpan({ text: getLocalizedText('heatmapLess', language) });
+		for (let level = 0; level <= 4; level++) {
+			legendEl.createDiv(`year-heatmap-cell heatmap-level-${level}`);
+		}
+		legendEl.createSpan({ text: getLocalizedText('heatmapMore', language) });
+	}
+
+	// Zero-based day of the year, safe across daylight saving changes
+	getDayOfYear(date: Date): number {
+		return Math.round((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(date.getFullYear(), 0, 1)) / 86400000);
 	}
 
 	renderYearView(date: Date, calendarEl: Element, monthYearEl: Element, highlightDate?: Date) {
@@ -2109,30 +4567,19 @@ class CalendarView extends ItemView {
 		const monthTimelineContainer = monthTimeline.createDiv("year-month-timeline-container");
 		const monthNames = getMonthNames(this.plugin.settings.language);
 
-		// Get all notes for this year and group by month
-		const notes = this.plugin.app.vault.getMarkdownFiles();
-		const notesByMonth: { [month: number]: Array<{ note: TFile; noteDate: Date }> } = {};
-
-		// Initialize all months
+		// Get all notes for this year from the date index, grouped by month
+		const notesByMonth: { [month: number]: DatedNote[] } = {};
 		for (let i = 0; i < 12; i++) {
-			notesByMonth[i] = [];
+			notesByMonth[i] = this.filterNotes(this.plugin.dateIndex.getNotesForMonth(year, i, getAxisKinds(this.plugin.settings.calendarAxis)));
 		}
 
-		// Group notes by month
-		notes.forEach(note => {
-			const noteDate = new Date(note.stat.mtime);
-			if (noteDate.getFullYear() === year) {
-				notesByMonth[noteDate.getMonth()].push({ note, noteDate });
-			}
-		});
-
 		// Sort notes in each month according to settings
 		Object.keys(notesByMonth).forEach(month => {
 			const monthNum = parseInt(month);
-			if (this.plugin.settings.sortOrder === 'desc') {
-				notesByMonth[monthNum].sort((a, b) => b.note.stat.mtime - a.note.stat.mtime);
+			if (this.sortOrder === 'desc') {
+				notesByMonth[monthNum].sort((a, b) => b.date.getTime() - a.date.getTime());
 			} else {
-				notesByMonth[monthNum].sort((a, b) => a.note.stat.mtime - b.note.stat.mtime);
+				notesByMonth[monthNum].sort((a, b) => a.date.getTime() - b.date.getTime());
 			}
 		});
 
@@ -2183,26 +4630,53 @@ class CalendarView extends ItemView {
 				selectedMonth = monthIndex;
 
 				// Scroll to the month section
-				const monthSection = document.getElementById(`month-${monthIndex}`);
-				if (monthSection) {
-					monthSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
-				}
+				this.yearTimeline?.scrollToMonth(monthIndex);
 			};
 		});
 
-		// Create timeline for all notes
-		const timeline = yearContainer.createDiv("timeline");
+		// Create timeline for all notes; rows are rendered as they scroll into view
+		const timeline = yearContainer.createDiv("timeline year-timeline-window");
+		const collapsedMonths: Set<number> = (this as any).collapsedYearMonths || new Set();
+		(this as any).collapsedYearMonths = collapsedMonths;
+		// While searching, months without hits are collapsed; the months collapsed by hand stay as they were
+		const searchCollapsedMonths = this.searchQuery ?
+			new Set(monthNames.map((_, monthIndex) => monthIndex).filter(monthIndex => notesByMonth[monthIndex].length === 0)) :
+			collapsedMonths;
+		this.yearTimeline = new YearTimelineWindow(
+			timeline,
+			monthNames.map((_, monthIndex) => notesByMonth[monthIndex]),
+			searchCollapsedMonths,
+			(row, rowEl) => this.renderYearRow(row, rowEl, highlightDate)
+		);
+		const totalNotes = this.yearTimeline.totalNotes;
 
-		let totalNotes = 0;
-		// Create month sections
-		monthNames.forEach((monthName, monthIndex) => {
-			const monthNotes = notesByMonth[monthIndex];
-			totalNotes += monthNotes.length;
+		// Show message if no notes found
+		if (totalNotes === 0) {
+			const noNotes = timeline.createDiv("no-notes-message");
+			const noNotesText = getLocalizedText('yearNoNotes', this.plugin.settings.language);
+			noNotes.textContent = `${noNotesText} ${year}`;
+		}
+
+		// Auto-scroll to current selected month
+		setTimeout(() => {
+			const selectedMonthItem = monthTimelineContainer.querySelector(".year-month-timeline-item.active");
+			if (selectedMonthItem) {
+				selectedMonthItem.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+			}
+		}, 100);
+	}
+
+	renderYearRow(row: YearTimelineRow, rowEl: HTMLElement, highlightDate?: Date) {
+		const monthIndex = row.month;
+
+		if (row.type === 'header') {
+			const monthName = getMonthNames(this.plugin.settings.language)[monthIndex];
+			const collapsed = this.yearTimeline?.isCollapsed(monthIndex) ?? false;
 
 			// Create month section container
-			const monthContainer = timeline.createDiv("year-month-container");
+			const monthContainer = rowEl.createDiv("year-month-container");
 			monthContainer.id = `month-${monthIndex}`;
-			monthContainer.addClass('expanded'); // Start expanded
+			monthContainer.addClass(collapsed ? 'collapsed' : 'expanded');
 
 			// Create month header
 			const monthSection = monthContainer.createDiv("year-month-header");
@@ -2210,16 +4684,16 @@ class CalendarView extends ItemView {
 			// Create localized month title
 			let monthTitleText: string;
 			if (this.plugin.settings.language === 'en') {
-				monthTitleText = monthNotes.length > 0 ?
-					`${monthName} (${monthNotes.length} notes)` :
+				monthTitleText = row.count > 0 ?
+					`${monthName} (${row.count} notes)` :
 					`${monthName} (No notes)`;
 			} else {
-				monthTitleText = monthNotes.length > 0 ?
-					`${monthName} (${monthNotes.length}个笔记)` :
+				monthTitleText = row.count > 0 ?
+					`${monthName} (${row.count}个笔记)` :
 					`${monthName} (无笔记)`;
 			}
 
-			const monthTitle = monthSection.createEl("h3", {
+			monthSection.createEl("h3", {
 				text: monthTitleText
 			});
 
@@ -2227,228 +4701,663 @@ class CalendarView extends ItemView {
 			monthSection.onclick = (e: MouseEvent) => {
 				e.preventDefault();
 				e.stopPropagation();
-
-				// Toggle month expansion
-				const monthContainerId = `month-${monthIndex}`;
-				const monthContainerEl = document.getElementById(monthContainerId);
-				const monthTimelineItem = document.querySelectorAll('.year-month-timeline-item')[monthIndex];
-
-				if (monthContainerEl) {
-					if (monthContainerEl.hasClass('expanded')) {
-						// Collapse the month
-						monthContainerEl.removeClass('expanded');
-						monthContainerEl.addClass('collapsed');
-						if (monthTimelineItem) {
-							monthTimelineItem.removeClass('expanded');
-						}
-					} else {
-						// Expand the month
-						monthContainerEl.removeClass('collapsed');
-						monthContainerEl.addClass('expanded');
-						if (monthTimelineItem) {
-							monthTimelineItem.addClass('expanded');
-						}
-					}
-				}
+				this.toggleYearMonth(monthIndex);
 			};
+			return;
+		}
 
-			// Create content container for notes
-			const monthContent = monthContainer.createDiv("year-month-content");
-
-			// Add notes for this month
-			monthNotes.forEach(({ note, noteDate }) => {
-				const timelineItem = monthContent.createDiv("timeline-item");
-
-				// Timeline dot
-				const timelineDot = timelineItem.createDiv("timeline-dot");
-
-				// Date and time indicator (above file content)
-				const dateTimeIndicator = timelineItem.createDiv("timeline-datetime");
-
-				dateTimeIndicator.innerHTML = `
-					<span class="timeline-date">${String(noteDate.getMonth() + 1).padStart(2, '0')}-${String(noteDate.getDate()).padStart(2, '0')}</span>
-					<span class="timeline-time">${noteDate.toLocaleTimeString('zh-CN', {
-						hour: '2-digit',
-						minute: '2-digit',
-						second: '2-digit',
-						hour12: false
-					})}</span>
-				`;
-
-				// Content wrapper for dot and file content
-				const contentWrapper = timelineItem.createDiv("timeline-content-wrapper");
-
-				// Note content area
-				const noteContent = contentWrapper.createDiv("timeline-note-content");
-
-				// Make the entire note content clickable
-				noteContent.style.cursor = 'pointer';
-				noteContent.onclick = (e) => {
-					e.preventDefault();
-					e.stopPropagation();
-
-					// Check current view type to determine action
-					if (this.plugin.settings.calendarViewType === 'year') {
-						// In year view, scroll to file and highlight it, then open the file
-						this.scrollToFileInFileExplorer(note);
-						// Add temporary highlight to the clicked file
-						this.highlightFileInExplorer(note, 2000); // Highlight for 2 seconds
-						// Then open the file
-						this.app.workspace.getLeaf().openFile(note);
-					} else {
-						// In month view, jump to the specific month
-						const noteMonth = noteDate.getMonth();
-						const noteYear = noteDate.getFullYear();
-						const monthNames = getMonthNames(this.plugin.settings.language);
-
-						// Switch to month view
-						this.plugin.settings.calendarViewType = 'month';
-						this.plugin.saveSettings();
-
-						// Update view switcher button
-						const viewSwitcherBtn = document.querySelector('.view-switcher-btn');
-						if (viewSwitcherBtn) {
-							viewSwitcherBtn.textContent = this.getViewSwitcherLabel();
-							viewSwitcherBtn.title = this.getViewSwitcherTooltip();
-						}
+		rowEl.addClass("year-month-content");
+		const { file: note, date: noteDate, kind } = row.note;
+		const timelineItem = rowEl.createDiv(`timeline-item timeline-item-${kind}`);
+
+		// Timeline dot
+		const timelineDot = timelineItem.createDiv("timeline-dot");
+		this.plugin.applySourceColor(timelineDot, note, this.hiddenSources);
+
+		// Date and time indicator (above file content)
+		const dateTimeIndicator = timelineItem.createDiv("timeline-datetime");
+
+		dateTimeIndicator.innerHTML = `
+			<span class="timeline-date">${String(noteDate.getMonth() + 1).padStart(2, '0')}-${String(noteDate.getDate()).padStart(2, '0')}</span>
+			<span class="timeline-time">${noteDate.toLocaleTimeString('zh-CN', {
+				hour: '2-digit',
+				minute: '2-digit',
+				second: '2-digit',
+				hour12: false
+			})}</span>
+		`;
+		this.addDateKindBadge(dateTimeIndicator, kind);
+
+		// Content wrapper for dot and file content
+		const contentWrapper = timelineItem.createDiv("timeline-content-wrapper");
+
+		// Note content area
+		const noteContent = contentWrapper.createDiv("timeline-note-content");
+
+		// Make the entire note content clickable
+		noteContent.style.cursor = 'pointer';
+		noteContent.onclick = (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+
+			// Check current view type to determine action
+			if (this.viewType === 'year') {
+				// In year view, scroll to file and highlight it, then open the file
+				this.scrollToFileInFileExplorer(note);
+				// Add temporary highlight to the clicked file
+				this.highlightFileInExplorer(note, 2000); // Highlight for 2 seconds
+				// Then open the file
+				this.app.workspace.getLeaf().openFile(note);
+			} else {
+				// In month view, jump to the specific month
+				const targetDate = new Date(noteDate.getFullYear(), noteDate.getMonth(), 1);
+				this.switchViewType('month', targetDate, targetDate);
+			}
+		};
 
-						// Get current date reference and re-render calendar for the specific month
-						const targetDate = new Date(noteYear, noteMonth, 1);
-						const monthYearEl = (this as any).monthYearEl;
-						if (monthYearEl) {
-							this.renderCalendar(targetDate, null, monthYearEl, targetDate);
-						}
+		// Note title
+		const noteTitle = noteContent.createEl("div", { cls: "timeline-note-title" });
+		renderSearchHighlight(noteTitle, note.basename, this.searchQuery);
+		if (this.plugin.getIncludedFileCategories().length > 1) {
+			addFileTypeIcon(noteTitle, note);
+		}
 
-						// Jump notification removed - direct navigation without interruption
-					}
-				};
+		// Note path
+		const notePath = noteContent.createEl("div", {
+			text: note.path,
+			cls: "timeline-note-path"
+		});
 
-				// Note title
-				const noteTitle = noteContent.createEl("div", {
-					text: note.basename,
-					cls: "timeline-note-title"
-				});
+		this.plugin.addTagChips(noteContent, note);
 
-				// Note path
-				const notePath = noteContent.createEl("div", {
-					text: note.path,
-					cls: "timeline-note-path"
-				});
+		// Add first line of note content
+		this.plugin.previews.attach(noteContent, note, this.searchQuery);
 
-				// Add first line of note content
-				this.addFirstLineToTimeline(noteContent, note);
+		// Add hover effects and tooltip
+		timelineItem.title = `${note.basename}\n路径: ${note.path}\n修改时间: ${noteDate.toLocaleString('zh-CN')}`;
 
-				// Add hover effects and tooltip
-				timelineItem.title = `${note.basename}\n路径: ${note.path}\n修改时间: ${noteDate.toLocaleString('zh-CN')}`;
+		// Check if this note should be highlighted
+		if (highlightDate &&
+			noteDate.getFullYear() === highlightDate.getFullYear() &&
+			noteDate.getMonth() === highlightDate.getMonth() &&
+			noteDate.getDate() === highlightDate.getDate()) {
+			timelineItem.addClass("highlighted-note");
+		}
+	}
 
-				// Check if this note should be highlighted
-				if (highlightDate &&
-					noteDate.getFullYear() === highlightDate.getFullYear() &&
-					noteDate.getMonth() === highlightDate.getMonth() &&
-					noteDate.getDate() === highlightDate.getDate()) {
-					timelineItem.addClass("highlighted-note");
-				}
-			});
+	// Collapse or expand a month of the year timeline, keeping the month strip in sync
+	toggleYearMonth(monthIndex: number) {
+		if (!this.yearTimeline) return;
+		this.yearTimeline.toggleMonth(monthIndex);
+
+		const monthTimelineItem = this.containerEl.querySelectorAll('.year-month-timeline-item')[monthIndex];
+		if (monthTimelineItem) {
+			monthTimelineItem.toggleClass('expanded', !this.yearTimeline.isCollapsed(monthIndex));
+		}
+	}
+
+
+	// Day header, e.g. "Mon, May 27, 2024" or "2024年5月27日 周一"
+	formatDayHeading(date: Date): string {
+		const language = this.plugin.settings.language;
+		const weekdayNames = getWeekdayNames(language);
+		const shortMonthNames = getShortMonthNames(language);
+		return language === 'en' ?
+			`${weekdayNames[date.getDay()]}, ${shortMonthNames[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}` :
+			`${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日 ${weekdayNames[date.getDay()]}`;
+	}
+
+	// Week header, e.g. "May 27 - Jun 2, 2024" or "2024年5月27日 - 6月2日"; both years are shown across New Year
+	formatWeekRange(start: Date, end: Date): string {
+		const shortMonthNames = getShortMonthNames(this.plugin.settings.language);
+		const sameYear = start.getFullYear() === end.getFullYear();
+
+		if (this.plugin.settings.language === 'en') {
+			const startText = `${shortMonthNames[start.getMonth()]} ${start.getDate()}`;
+			const endText = `${shortMonthNames[end.getMonth()]} ${end.getDate()}`;
+			return sameYear ?
+				`${startText} - ${endText}, ${end.getFullYear()}` :
+				`${startText}, ${start.getFullYear()} - ${endText}, ${end.getFullYear()}`;
+		}
+
+		const startText = `${start.getFullYear()}年${shortMonthNames[start.getMonth()]}${start.getDate()}日`;
+		const endText = `${shortMonthNames[end.getMonth()]}${end.getDate()}日`;
+		return sameYear ? `${startText} - ${endText}` : `${startText} - ${end.getFullYear()}年${endText}`;
+	}
+
+	// In "both" mode, label each timeline entry with the kind of date it was placed by
+	addDateKindBadge(dateTimeIndicator: HTMLElement, kind: NoteDateKind) {
+		if (this.plugin.settings.calendarAxis !== 'both') return;
+		dateTimeIndicator.createEl("span", {
+			text: getLocalizedText(kind === 'created' ? 'axisCreated' : 'axisModified', this.plugin.settings.language),
+			cls: `timeline-kind timeline-kind-${kind}`
 		});
+	}
 
-		// Show message if no notes found
-		if (totalNotes === 0) {
-			const noNotes = timeline.createDiv("no-notes-message");
-			const noNotesText = getLocalizedText('yearNoNotes', this.plugin.settings.language);
-			noNotes.textContent = `${noNotesText} ${year}`;
+	getAxisLabel(): string {
+		switch (this.plugin.settings.calendarAxis) {
+			case 'created':
+				return getLocalizedText('axisCreated', this.plugin.settings.language);
+			case 'modified':
+				return getLocalizedText('axisModified', this.plugin.settings.language);
+			case 'both':
+				return getLocalizedText('axisBoth', this.plugin.settings.language);
 		}
+	}
 
-		// Auto-scroll to current selected month
-		setTimeout(() => {
-			const selectedMonthItem = monthTimelineContainer.querySelector(".year-month-timeline-item.active");
-			if (selectedMonthItem) {
-				selectedMonthItem.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+	getAxisTooltip(): string {
+		return getLocalizedText('axisTooltip', this.plugin.settings.language).replace('{axis}', this.getAxisLabel());
+	}
+
+	// Whether an index entry passes the filters and the search currently set in the controls
+	isNoteVisible(note: DatedNote): boolean {
+		return this.passesFilters(note) && this.matchesSearch(note.file);
+	}
+
+	passesFilters(note: DatedNote): boolean {
+		if (this.scopeFolder && !note.file.path.startsWith(`${this.scopeFolder}/`)) {
+			return false;
+		}
+		if (this.hiddenFileCategories.has(getFileCategory(note.file))) {
+			return false;
+		}
+		if (this.queryNode && !evaluateQuery(this.queryNode, getQueryFileInfo(this.app, note.file))) {
+			return false;
+		}
+		// Notes outside every source always show; the others once any of their sources is on
+		if (this.hiddenSources.size > 0) {
+			const sources = this.plugin.getFileSources(note.file);
+			if (sources.length > 0 && sources.every(source => this.hiddenSources.has(source.id))) {
+				return false;
 			}
-		}, 100);
+		}
+		if (this.tagFilter.length > 0) {
+			const fileTags = getFileTags(this.app, note.file);
+			const hasTag = (filterTag: string) => fileTags.some(tag => tagMatches(tag, filterTag));
+			return this.tagFilterMode === 'all' ? this.tagFilter.every(hasTag) : this.tagFilter.some(hasTag);
+		}
+		return true;
+	}
+
+	matchesSearch(file: TFile): boolean {
+		if (!this.searchMatcher) return true;
+		return this.searchMatcher(file.basename) !== null ||
+			this.searchMatcher(file.path) !== null ||
+			(this.searchContent && this.contentHits.has(file.path));
+	}
+
+	setSearchQuery(query: string, refresh: boolean = true) {
+		this.searchQuery = query.trim();
+		this.searchMatcher = this.searchQuery ? prepareFuzzySearch(this.searchQuery) : null;
+		this.contentHits = new Set();
+		const searchInput = (this as any).searchInput as HTMLInputElement;
+		if (searchInput && searchInput.value.trim() !== this.searchQuery) {
+			searchInput.value = this.searchQuery;
+		}
+		const searchContentBtn = (this as any).searchContentBtn as HTMLElement;
+		if (searchContentBtn) {
+			searchContentBtn.toggleClass('is-active', this.searchContent);
+		}
+
+		if (refresh) {
+			this.refresh();
+		}
+		if (this.searchQuery && this.searchContent) {
+			this.searchContents();
+		}
+	}
+
+	// Read the included notes in the background and refresh once the matching ones are known;
+	// a newer search makes an older one stop
+	async searchContents() {
+		const searchId = ++this.contentSearchId;
+		const matcher = prepareSimpleSearch(this.searchQuery);
+		const hits: Set<string> = new Set();
+		const files = this.app.vault.getMarkdownFiles().filter(file => this.plugin.isCalendarFile(file));
+
+		for (const file of files) {
+			const content = await this.app.vault.cachedRead(file);
+			if (searchId !== this.contentSearchId) return;
+			if (matcher(content)) {
+				hits.add(file.path);
+			}
+		}
+
+		this.contentHits = hits;
+		if (hits.size > 0) {
+			this.refresh();
+		}
+	}
+
+	addTagFilter(tag: string) {
+		const normalized = normalizeTag(tag);
+		if (!this.tagFilter.includes(normalized)) {
+			this.tagFilter = [...this.tagFilter, normalized];
+			this.refresh();
+		}
 	}
 
-	async addFirstLineToTimeline(noteContent: HTMLElement, note: TFile) {
+	removeTagFilter(tag: string) {
+		this.tagFilter = this.tagFilter.filter(filterTag => filterTag !== tag);
+		this.refresh();
+	}
+
+	// Saved queries, the query field and the error of the query typed
+	createQueryBar(queryBarEl: HTMLElement) {
+		const language = this.plugin.settings.language;
+		const inputRow = queryBarEl.createDiv("calendar-query-row");
+
+		const savedSelect = inputRow.createEl("select", { cls: "dropdown calendar-saved-query-select" });
+		savedSelect.title = getLocalizedText('savedQueries', language);
+		// Queries can be saved from other calendars or the settings, so list them again before opening
+		savedSelect.addEventListener('mousedown', () => this.updateSavedQuerySelect());
+		savedSelect.addEventListener('focus', () => this.updateSavedQuerySelect());
+		savedSelect.onchange = () => {
+			const saved = this.plugin.settings.savedQueries[parseInt(savedSelect.value)];
+			if (saved) {
+				this.setQuery(saved.query);
+			}
+			savedSelect.value = '';
+		};
+
+		const queryInput = inputRow.createEl("input", {
+			type: "text",
+			cls: "calendar-query-input",
+			placeholder: getLocalizedText('queryPlaceholder', language)
+		});
+		queryInput.spellcheck = false;
+		queryInput.addEventListener('input', debounce(() => this.setQuery(queryInput.value), 300, true));
+
+		const saveBtn = inputRow.createEl("button", {
+			cls: "calendar-query-action",
+			title: getLocalizedText('saveQueryTooltip', language)
+		});
+		setIcon(saveBtn, 'save');
+		saveBtn.onclick = () => {
+			if (!this.query || this.queryError) return;
+			const query = this.query;
+			const existing = this.plugin.settings.savedQueries.find(saved => saved.query === query);
+			new QueryNameModal(this.app, language, existing ? existing.name : '', async (name) => {
+				this.plugin.settings.savedQueries = [
+					...this.plugin.settings.savedQueries.filter(saved => saved.name !== name),
+					{ name, query }
+				];
+				await this.plugin.saveSettings();
+				new Notice(`${getLocalizedText('querySaved', language)} ${name}`);
+			}).open();
+		};
+
+		const clearBtn = inputRow.createEl("button", {
+			cls: "calendar-query-action",
+			title: getLocalizedText('clearQueryTooltip', language)
+		});
+		setIcon(clearBtn, 'x');
+		clearBtn.onclick = () => {
+			this.queryBarOpen = false;
+			this.setQuery('');
+		};
+
+		(this as any).queryBarEl = queryBarEl;
+		(this as any).queryInput = queryInput;
+		(this as any).savedQuerySelect = savedSelect;
+		(this as any).queryErrorEl = queryBarEl.createDiv("calendar-query-error");
+		this.updateSavedQuerySelect();
+		// Validate a query restored with the layout before the bar existed
+		this.setQuery(this.query, false);
+	}
+
+	updateSavedQuerySelect() {
+		const savedSelect = (this as any).savedQuerySelect as HTMLSelectElement;
+		if (!savedSelect) return;
+
+		savedSelect.empty();
+		savedSelect.createEl("option", { text: getLocalizedText('savedQueries', this.plugin.settings.language), value: '' });
+		this.plugin.settings.savedQueries.forEach((saved, index) => {
+			savedSelect.createEl("option", { text: saved.name, value: index.toString() });
+		});
+		savedSelect.value = '';
+	}
+
+	setQuery(query: string, refresh: boolean = true) {
+		this.query = query.trim();
+		let error: QuerySyntaxError | null = null;
 		try {
-			// Read the file content
-			const content = await this.plugin.app.vault.read(note);
-
-			// Get the first non-empty line
-			const lines = content.split('\n').filter(line => line.trim().length > 0);
-
-			if (lines.length > 0) {
-				let firstLine = lines[0].trim();
-
-				// Remove markdown formatting from the first line
-				firstLine = firstLine
-					.replace(/^#+\s*/, '') // Remove headers
-					.replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-					.replace(/\*(.*?)\*/g, '$1') // Remove italic
-					.replace(/`(.*?)`/g, '$1') // Remove inline code
-					.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
-					.slice(0, 100); // Limit to 100 characters
-
-				if (firstLine.length > 0) {
-					const contentPreview = noteContent.createEl("div", {
-						text: firstLine,
-						cls: "timeline-note-preview"
-					});
+			this.queryNode = parseQuery(this.query);
+			this.appliedQuery = this.query;
+		} catch (e) {
+			if (!(e instanceof QuerySyntaxError)) throw e;
+			error = e;
+		}
+		this.queryError = error !== null;
+		this.updateQueryBar(error);
+
+		if (refresh && !error) {
+			this.refresh();
+		}
+	}
+
+	updateQueryBar(error: QuerySyntaxError | null = null) {
+		const queryBarEl = (this as any).queryBarEl as HTMLElement;
+		if (!queryBarEl) return;
+
+		queryBarEl.toggleClass('is-hidden', !this.queryBarOpen && !this.query);
+		const queryBtn = (this as any).queryBtn as HTMLElement;
+		if (queryBtn) {
+			queryBtn.toggleClass('is-active', this.queryNode !== null);
+		}
+
+		const queryInput = (this as any).queryInput as HTMLInputElement;
+		if (queryInput.value.trim() !== this.query) {
+			queryInput.value = this.query;
+		}
+		queryInput.toggleClass('is-invalid', error !== null);
+
+		const queryErrorEl = (this as any).queryErrorEl as HTMLElement;
+		queryErrorEl.setText(error ? formatQueryError(error, this.plugin.settings.language) : '');
+		queryErrorEl.toggleClass('is-hidden', error === null);
+	}
+
+	// Legend of the configured sources; clicking one shows or hides its notes
+	renderSourceLegend() {
+		const sourceLegendEl = (this as any).sourceLegendEl as HTMLElement;
+		if (!sourceLegendEl) return;
+		sourceLegendEl.empty();
+
+		const sources = this.plugin.getSourceMatchers().map(({ source }) => source);
+		sourceLegendEl.toggleClass('is-hidden', sources.length === 0);
+
+		sources.forEach(source => {
+			const item = sourceLegendEl.createEl("button", {
+				cls: "source-legend-item",
+				title: getLocalizedText('sourceLegendTooltip', this.plugin.settings.language).replace('{name}', source.name)
+			});
+			item.toggleClass('is-active', !this.hiddenSources.has(source.id));
+			const swatch = item.createSpan({ cls: "source-legend-swatch" });
+			swatch.style.backgroundColor = source.color;
+			item.createSpan({ text: source.name });
+
+			item.onclick = () => {
+				if (this.hiddenSources.has(source.id)) {
+					this.hiddenSources.delete(source.id);
+				} else {
+					this.hiddenSources.add(source.id);
 				}
+				this.refresh();
+			};
+		});
+	}
+
+	// Row of the tags filtered by, with the any/all switch; hidden while no tag is chosen
+	renderTagFilterChips() {
+		const tagFilterEl = (this as any).tagFilterEl as HTMLElement;
+		if (!tagFilterEl) return;
+		tagFilterEl.empty();
+
+		const language = this.plugin.settings.language;
+		const tagFilterBtn = (this as any).tagFilterBtn as HTMLElement;
+		if (tagFilterBtn) {
+			tagFilterBtn.toggleClass('is-active', this.tagFilter.length > 0);
+		}
+		tagFilterEl.toggleClass('is-hidden', this.tagFilter.length === 0);
+		if (this.tagFilter.length === 0) return;
+
+		// The mode only matters with more than one tag
+		if (this.tagFilter.length > 1) {
+			const modeBtn = tagFilterEl.createEl("button", {
+				text: getLocalizedText(this.tagFilterMode === 'all' ? 'tagFilterAll' : 'tagFilterAny', language),
+				title: getLocalizedText('tagFilterModeTooltip', language),
+				cls: "tag-filter-mode"
+			});
+			modeBtn.onclick = () => {
+				this.tagFilterMode = this.tagFilterMode === 'all' ? 'any' : 'all';
+				this.refresh();
+			};
+		}
+
+		this.tagFilter.forEach(tag => {
+			const chip = tagFilterEl.createEl("button", {
+				cls: "tag-filter-chip is-active",
+				title: getLocalizedText('tagFilterRemove', language)
+			});
+			const color = this.plugin.getTagColor(tag);
+			if (color) {
+				chip.style.borderColor = color;
 			}
-		} catch (error) {
-			// If there's an error reading the file, just don't show the preview
-			console.debug('Error reading file content for preview:', note.path, error);
+			chip.createSpan({ text: tag });
+			setIcon(chip.createSpan({ cls: "tag-filter-chip-remove" }), 'x');
+			chip.onclick = () => this.removeTagFilter(tag);
+		});
+
+		const clearBtn = tagFilterEl.createEl("button", {
+			text: getLocalizedText('tagFilterClear', language),
+			cls: "tag-filter-clear"
+		});
+		clearBtn.onclick = () => {
+			this.tagFilter = [];
+			this.refresh();
+		};
+	}
+
+	setScopeFolder(folder: string) {
+		this.scopeFolder = folder;
+		this.updateScopeSelect();
+		this.refresh();
+	}
+
+	updateScopeSelect() {
+		const scopeSelect = (this as any).scopeSelect as HTMLSelectElement;
+		if (!scopeSelect) return;
+
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+			.map(folder => folder.path)
+			.sort((a, b) => a.localeCompare(b));
+		// Keep a scope whose folder was removed visible, so it can be cleared
+		if (this.scopeFolder && !folders.includes(this.scopeFolder)) {
+			folders.unshift(this.scopeFolder);
+		}
+
+		scopeSelect.empty();
+		scopeSelect.createEl("option", { text: getLocalizedText('scopeWholeVault', this.plugin.settings.language), value: '' });
+		folders.forEach(folder => {
+			scopeSelect.createEl("option", { text: folder, value: folder });
+		});
+		scopeSelect.value = this.scopeFolder;
+		scopeSelect.toggleClass('is-scoped', this.scopeFolder !== '');
+	}
+
+	filterNotes(notes: DatedNote[]): DatedNote[] {
+		return notes.filter(note => this.isNoteVisible(note));
+	}
+
+	// Chip row to show or hide file types; only shown when more than one type is included
+	renderTypeFilterChips() {
+		const typeFilterEl = (this as any).typeFilterEl as HTMLElement;
+		if (!typeFilterEl) return;
+		typeFilterEl.empty();
+
+		const categories = this.plugin.getIncludedFileCategories();
+		typeFilterEl.toggleClass('is-hidden', categories.length <= 1);
+		if (categories.length <= 1) return;
+
+		categories.forEach(category => {
+			const chip = typeFilterEl.createEl("button", {
+				cls: `type-filter-chip type-filter-chip-${category}`,
+				title: getFileCategoryLabel(category, this.plugin.settings.language)
+			});
+			chip.toggleClass('is-active', !this.hiddenFileCategories.has(category));
+			setIcon(chip.createSpan({ cls: "type-filter-chip-icon" }), getFileCategoryIcon(category));
+			chip.createSpan({ text: getFileCategoryLabel(category, this.plugin.settings.language) });
+
+			chip.onclick = () => {
+				if (this.hiddenFileCategories.has(category)) {
+					this.hiddenFileCategories.delete(category);
+				} else {
+					this.hiddenFileCategories.add(category);
+				}
+				this.refresh();
+			};
+		});
+	}
+
+	isDetailedMonthLayout(): boolean {
+		return this.plugin.settings.monthLayout === 'detailed' && this.containerEl.clientWidth >= DETAILED_MONTH_MIN_WIDTH;
+	}
+
+	// Switch between detailed and compact month cells as the pane is resized
+	onResize() {
+		if (this.viewType === 'month' && (this as any).renderedDetailedMonth !== this.isDetailedMonthLayout()) {
+			this.refresh();
 		}
 	}
 
+	// A stack of dots per shown source with notes on the day, one dot for each of up to three notes
+	renderSourceDots(dayEl: HTMLElement, dayNotes: DatedNote[]) {
+		const matchers = this.plugin.getSourceMatchers().filter(({ source }) => !this.hiddenSources.has(source.id));
+		if (matchers.length === 0) return;
+
+		// In "both" mode a note can be on a day twice; count each file once
+		const files = Array.from(new Set(dayNotes.map(({ file }) => file)));
+		const counts = matchers
+			.map(({ source, matches }) => ({ source, count: files.filter(file => matches(file)).length }))
+			.filter(({ count }) => count > 0);
+		if (counts.length === 0) return;
+
+		const dotsEl = dayEl.createDiv("calendar-day-source-dots");
+		counts.forEach(({ source, count }) => {
+			const stackEl = dotsEl.createDiv("calendar-day-source-stack");
+			stackEl.title = getLocalizedText('sourceDotTooltip', this.plugin.settings.language)
+				.replace('{name}', source.name)
+				.replace('{count}', count.toString());
+			for (let i = 0; i < Math.min(count, 3); i++) {
+				stackEl.createSpan({ cls: "calendar-day-source-dot" }).style.backgroundColor = source.color;
+			}
+		});
+	}
+
+	// One colored dot per configured tag that any note of the day carries
+	renderTagDots(dayEl: HTMLElement, dayNotes: DatedNote[]) {
+		const tagColors = this.plugin.settings.tagColors.filter(tagColor => tagColor.tag.trim());
+		if (tagColors.length === 0) return;
+
+		const matching = tagColors.filter(tagColor =>
+			dayNotes.some(({ file }) => fileHasTag(this.app, file, tagColor.tag)));
+		if (matching.length === 0) return;
+
+		const dotsEl = dayEl.createDiv("calendar-day-tag-dots");
+		matching.forEach(tagColor => {
+			const dotEl = dotsEl.createSpan({ cls: "calendar-day-tag-dot" });
+			dotEl.style.backgroundColor = tagColor.color;
+			dotEl.title = normalizeTag(tagColor.tag);
+		});
+	}
+
+	// Up to N note titles inside a month cell, with a "+k more" link to the full list
+	renderDayCellTitles(dayEl: HTMLElement, dayNotes: DatedNote[], day: number, month: number, year: number) {
+		// In "both" mode a note can be on a day twice; list each file once
+		const files: TFile[] = [];
+		[...dayNotes]
+			.sort((a, b) => this.sortOrder === 'desc' ? b.date.getTime() - a.date.getTime() : a.date.getTime() - b.date.getTime())
+			.forEach(({ file }) => {
+				if (!files.includes(file)) {
+					files.push(file);
+				}
+			});
+
+		const titlesEl = dayEl.createDiv("calendar-day-titles");
+		const limit = Math.max(1, this.plugin.settings.monthCellTitleCount);
+		files.slice(0, limit).forEach(file => {
+			const titleEl = titlesEl.createDiv({ cls: "calendar-day-title" });
+			renderSearchHighlight(titleEl, file.basename, this.searchQuery);
+			titleEl.title = file.path;
+			titleEl.draggable = true;
+			titleEl.onclick = (e) => {
+				e.stopPropagation();
+				this.plugin.app.workspace.getLeaf().openFile(file);
+			};
+			titleEl.ondragstart = (e) => {
+				// Dropping into a note inserts a link, like dragging from the file explorer
+				const dragManager = (this.app as any).dragManager;
+				if (dragManager) {
+					dragManager.onDragStart(e, dragManager.dragFile(e, file));
+				} else {
+					e.dataTransfer?.setData('text/plain', this.app.fileManager.generateMarkdownLink(file, ''));
+				}
+			};
+		});
+
+		if (files.length > limit) {
+			const moreEl = titlesEl.createDiv({
+				text: getLocalizedText('moreNotes', this.plugin.settings.language).replace('{count}', (files.length - limit).toString()),
+				cls: "calendar-day-more"
+			});
+			moreEl.onclick = (e) => {
+				e.stopPropagation();
+				this.showNotesForDate(day, month, year);
+			};
+		}
+	}
 
-	showNotesForDate(notes: TFile[], day: number, month: number, year: number) {
-		const modal = new DateNotesModal(this.plugin.app, notes, day, month, year, this.plugin);
+	// Days without search hits list all their notes
+	showNotesForDate(day: number, month: number, year: number, ignoreSearch: boolean = false) {
+		const modal = new DateNotesModal(this.plugin.app, day, month, year, this.plugin, {
+			filter: ignoreSearch ? (note) => this.passesFilters(note) : (note) => this.isNoteVisible(note),
+			searchQuery: ignoreSearch ? '' : this.searchQuery,
+			sortOrder: this.sortOrder,
+			onSortOrderChange: (sortOrder) => this.setSortOrder(sortOrder)
+		});
 		modal.open();
 	}
 
 	async createNewNote() {
-		const now = new Date();
-		const year = now.getFullYear();
-		const month = String(now.getMonth() + 1).padStart(2, '0');
-		const day = String(now.getDate()).padStart(2, '0');
-		const hour = String(now.getHours()).padStart(2, '0');
-		const minute = String(now.getMinutes()).padStart(2, '0');
-		const second = String(now.getSeconds()).padStart(2, '0');
-
-		const fileName = `${year}-${month}-${day}-${hour}${minute}${second}.md`;
-
-		try {
-			// Create the new note file
-			const newFile = await this.plugin.app.vault.create(fileName, '');
-
-			// Open the new file in a new pane
-			await this.plugin.app.workspace.getLeaf(true).openFile(newFile);
+		await this.plugin.createDatedNote(new Date());
+	}
 
-			new Notice(`${getLocalizedText('newNoteCreated', this.plugin.settings.language)} ${fileName}`);
-		} catch (error) {
-			new Notice(`${getLocalizedText('createNoteFailed', this.plugin.settings.language)} ${error.message}`);
-		}
+	// New notes for another day keep the current time of day
+	createNoteForDay(year: number, month: number, day: number) {
+		const now = new Date();
+		this.plugin.createDatedNote(new Date(year, month, day, now.getHours(), now.getMinutes(), now.getSeconds()));
 	}
 
 	getViewSwitcherLabel(): string {
-		const currentType = this.plugin.settings.calendarViewType;
+		const currentType = this.viewType;
 		switch (currentType) {
 			case 'year':
 				return getLocalizedText('yearToMonth', this.plugin.settings.language);
 			case 'month':
-				return getLocalizedText('monthToYear', this.plugin.settings.language);
+				return getLocalizedText('monthToWeek', this.plugin.settings.language);
+			case 'week':
+				return getLocalizedText('weekToDay', this.plugin.settings.language);
+			case 'day':
+				return getLocalizedText('dayToAgenda', this.plugin.settings.language);
+			case 'agenda':
+				return getLocalizedText('agendaToDecade', this.plugin.settings.language);
+			case 'onThisDay':
+				return getLocalizedText('onThisDayToDecade', this.plugin.settings.language);
+			case 'decade':
+				return getLocalizedText('decadeToYear', this.plugin.settings.language);
 			default:
 				return getLocalizedText('yearToMonth', this.plugin.settings.language);
 		}
 	}
 
 	getViewTypeLabel(): string {
-		const currentType = this.plugin.settings.calendarViewType;
+		const currentType = this.viewType;
 		switch (currentType) {
 			case 'year':
 				return getLocalizedText('yearView', this.plugin.settings.language);
 			case 'month':
 				return getLocalizedText('monthView', this.plugin.settings.language);
+			case 'week':
+				return getLocalizedText('weekView', this.plugin.settings.language);
+			case 'day':
+				return getLocalizedText('dayView', this.plugin.settings.language);
+			case 'decade':
+				return getLocalizedText('decadeView', this.plugin.settings.language);
+			case 'agenda':
+				return getLocalizedText('agendaView', this.plugin.settings.language);
+			case 'onThisDay':
+				return getLocalizedText('onThisDayView', this.plugin.settings.language);
 			default:
 				return getLocalizedText('yearView', this.plugin.settings.language);
 		}
@@ -2551,15 +5460,30 @@ class CalendarView extends ItemView {
 
 	navigateCalendar(direction: number, _daysEl: Element | null, monthYearEl: Element) {
 		const currentDate = (this as any).currentDate || new Date();
-		const viewType = this.plugin.settings.calendarViewType;
+		const viewType = this.viewType;
 
 		switch (viewType) {
 			case 'month':
 				currentDate.setMonth(currentDate.getMonth() + direction);
 				break;
+			case 'week':
+				currentDate.setDate(currentDate.getDate() + direction * 7);
+				break;
+			case 'day':
+				currentDate.setDate(currentDate.getDate() + direction);
+				break;
 			case 'year':
 				currentDate.setFullYear(currentDate.getFullYear() + direction);
 				break;
+			case 'decade':
+				currentDate.setFullYear(currentDate.getFullYear() + direction * 10);
+				break;
+			case 'agenda':
+				currentDate.setDate(currentDate.getDate() + direction * 7);
+				break;
+			case 'onThisDay':
+				currentDate.setDate(currentDate.getDate() + direction);
+				break;
 		}
 
 		(this as any).currentDate = new Date(currentDate);
@@ -2582,16 +5506,34 @@ class CalendarView extends ItemView {
 	}
 }
 
+// What the calendar a DateNotesModal is opened from passes on to it
+interface DateNotesModalOptions {
+	filter?: (note: DatedNote) => boolean;
+	// Search of the calendar, highlighted in the list
+	searchQuery?: string;
+	sortOrder?: 'desc' | 'asc';
+	// Called when the list is re-sorted, so the calendar can follow
+	onSortOrderChange?: (sortOrder: 'desc' | 'asc') => void;
+}
+
 class DateNotesModal extends Modal {
-	notes: TFile[];
+	notes: DatedNote[];
 	day: number;
 	month: number;
 	year: number;
 	plugin: NotesDatesPlugin;
+	filter: (note: DatedNote) => boolean;
+	searchQuery: string;
+	sortOrder: 'desc' | 'asc';
+	onSortOrderChange: ((sortOrder: 'desc' | 'asc') => void) | null;
 
-	constructor(app: App, notes: TFile[], day: number, month: number, year: number, plugin: NotesDatesPlugin) {
+	constructor(app: App, day: number, month: number, year: number, plugin: NotesDatesPlugin, options: DateNotesModalOptions = {}) {
 		super(app);
-		this.notes = notes;
+		this.notes = [];
+		this.filter = options.filter || (() => true);
+		this.searchQuery = options.searchQuery || '';
+		this.sortOrder = options.sortOrder || plugin.settings.sortOrder;
+		this.onSortOrderChange = options.onSortOrderChange || null;
 		this.day = day;
 		this.month = month;
 		this.year = year;
@@ -2601,6 +5543,9 @@ class DateNotesModal extends Modal {
 	async onOpen() {
 		const { contentEl } = this;
 
+		// Let the plugin refresh this list when notes are created, deleted or renamed
+		this.plugin.openDateModals.add(this);
+
 		// Create header container
 		const headerContainer = contentEl.createDiv("modal-header-container");
 
@@ -2616,7 +5561,7 @@ class DateNotesModal extends Modal {
 		sortControls.style.marginTop = '1rem';
 
 		const sortBtn = sortControls.createEl("button", {
-			text: this.plugin.settings.sortOrder === 'desc' ?
+			text: this.sortOrder === 'desc' ?
 				(this.plugin.settings.language === 'en' ? '↓ Time Desc' : '↓ 时间降序') :
 				(this.plugin.settings.language === 'en' ? '↑ Time Asc' : '↑ 时间升序'),
 			cls: "sort-button"
@@ -2625,9 +5570,9 @@ class DateNotesModal extends Modal {
 
 		sortBtn.onclick = () => {
 			// Toggle sort order
-			const newSortOrder = this.plugin.settings.sortOrder === 'desc' ? 'asc' : 'desc';
-			this.plugin.settings.sortOrder = newSortOrder;
-			this.plugin.saveSettings();
+			const newSortOrder = this.sortOrder === 'desc' ? 'asc' : 'desc';
+			this.sortOrder = newSortOrder;
+			this.onSortOrderChange?.(newSortOrder);
 
 			// Update button text with localization
 			sortBtn.textContent = newSortOrder === 'desc' ?
@@ -2654,24 +5599,62 @@ class DateNotesModal extends Modal {
 	}
 
 	async renderTimeline() {
-		const timelineContainer = (this as any).timelineContainer;
-		timelineContainer.empty();
+		// Render into a fresh wrapper so a re-render triggered by vault changes
+		// detaches the previous one instead of interleaving with it
+		(this as any).timelineContainer.empty();
+		const timelineContainer = (this as any).timelineContainer.createDiv("modal-timeline-list");
+
+		// Read the day's notes from the date index so the list is always current
+		const axis = this.plugin.settings.calendarAxis;
+		this.notes = this.plugin.dateIndex.getNotesForDay(this.year, this.month, this.day, getAxisKinds(axis)).filter(this.filter);
 
 		// Sort notes by modification time according to settings
-		if (this.plugin.settings.sortOrder === 'desc') {
-			this.notes.sort((a, b) => b.stat.mtime - a.stat.mtime);
+		if (this.sortOrder === 'desc') {
+			this.notes.sort((a, b) => b.date.getTime() - a.date.getTime());
+		} else {
+			this.notes.sort((a, b) => a.date.getTime() - b.date.getTime());
+		}
+
+		// Notes that mention this day are listed after the day's own notes
+		const mentionNotes = this.plugin.settings.showMentions ?
+			this.plugin.dateIndex.getNotesForDay(this.year, this.month, this.day, ['mentioned']).filter(this.filter) : [];
+		mentionNotes.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
+
+		if (axis !== 'both') {
+			await this.renderTimelineItems(timelineContainer, this.notes);
 		} else {
-			this.notes.sort((a, b) => a.stat.mtime - b.stat.mtime);
+			// In "both" mode, list notes created and notes edited on this day separately
+			const groups: Array<{ kind: NoteDateKind; heading: string }> = [
+				{ kind: 'created', heading: 'createdNotesHeading' },
+				{ kind: 'modified', heading: 'modifiedNotesHeading' }
+			];
+			for (const { kind, heading } of groups) {
+				await this.renderTimelineGroup(timelineContainer, kind, heading, this.notes.filter(note => note.kind === kind));
+			}
 		}
 
+		await this.renderTimelineGroup(timelineContainer, 'mentioned', 'mentionedNotesHeading', mentionNotes);
+	}
+
+	async renderTimelineGroup(timelineContainer: HTMLElement, kind: NoteDateKind, heading: string, notes: DatedNote[]) {
+		if (notes.length === 0) return;
+
+		timelineContainer.createEl("h4", {
+			text: `${getLocalizedText(heading, this.plugin.settings.language)} (${notes.length})`,
+			cls: `modal-axis-heading modal-axis-heading-${kind}`
+		});
+		await this.renderTimelineItems(timelineContainer, notes);
+	}
+
+	async renderTimelineItems(timelineContainer: HTMLElement, notes: DatedNote[]) {
 		const timeline = timelineContainer.createDiv("timeline");
 
-		for (const note of this.notes) {
-			const noteDate = new Date(note.stat.mtime);
+		for (const { file: note, date: noteDate } of notes) {
 			const timelineItem = timeline.createDiv("timeline-item");
 
 			// Timeline dot (positioned for modal with 3-line datetime display)
 			const timelineDot = timelineItem.createDiv("timeline-dot modal-timeline-dot");
+			this.plugin.applySourceColor(timelineDot, note);
 
 			// Date and time indicator (left side)
 			const dateTimeIndicator = timelineItem.createDiv("timeline-datetime");
@@ -2704,10 +5687,11 @@ class DateNotesModal extends Modal {
 			};
 
 			// Note title
-			const noteTitle = noteContent.createEl("div", {
-				text: note.basename,
-				cls: "timeline-note-title"
-			});
+			const noteTitle = noteContent.createEl("div", { cls: "timeline-note-title" });
+			renderSearchHighlight(noteTitle, note.basename, this.searchQuery);
+			if (this.plugin.getIncludedFileCategories().length > 1) {
+				addFileTypeIcon(noteTitle, note);
+			}
 
 			// Note path
 			const notePath = noteContent.createEl("div", {
@@ -2715,49 +5699,19 @@ class DateNotesModal extends Modal {
 				cls: "timeline-note-path"
 			});
 
+			this.plugin.addTagChips(noteContent, note);
+
 			// Add first line of note content
-			await this.addFirstLineToModal(noteContent, note);
+			this.plugin.previews.attach(noteContent, note, this.searchQuery);
 
 			// Add hover effects and tooltip
 			timelineItem.title = `${note.basename}\n路径: ${note.path}\n修改时间: ${noteDate.toLocaleString('zh-CN')}`;
 		}
 	}
 
-	async addFirstLineToModal(noteContent: HTMLElement, note: TFile) {
-		try {
-			// Read the file content
-			const content = await this.app.vault.read(note);
-
-			// Get the first non-empty line
-			const lines = content.split('\n').filter(line => line.trim().length > 0);
-
-			if (lines.length > 0) {
-				let firstLine = lines[0].trim();
-
-				// Remove markdown formatting from the first line
-				firstLine = firstLine
-					.replace(/^#+\s*/, '') // Remove headers
-					.replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-					.replace(/\*(.*?)\*/g, '$1') // Remove italic
-					.replace(/`(.*?)`/g, '$1') // Remove inline code
-					.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
-					.slice(0, 100); // Limit to 100 characters
-
-				if (firstLine.length > 0) {
-					const contentPreview = noteContent.createEl("div", {
-						text: firstLine,
-						cls: "timeline-note-preview"
-					});
-				}
-			}
-		} catch (error) {
-			// If there's an error reading the file, just don't show the preview
-			console.debug('Error reading file content for preview:', note.path, error);
-		}
-	}
-
 	onClose() {
 		const { contentEl } = this;
+		this.plugin.openDateModals.delete(this);
 		contentEl.empty();
 	}
 }
@@ -2828,6 +5782,83 @@ class NotesDatesSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Date Properties')
+			.setDesc('Frontmatter properties used as the note\'s created date, checked in order (comma separated)')
+			.addText(text => text
+				.setPlaceholder('date, created')
+				.setValue(this.plugin.settings.dateProperties.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.dateProperties = parseListSetting(value);
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Date Property Formats')
+			.setDesc('moment.js formats used to parse date properties (comma separated, ISO 8601 is always accepted)')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD, YYYY-MM-DD HH:mm')
+				.setValue(this.plugin.settings.datePropertyFormats.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.datePropertyFormats = parseListSetting(value);
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Date Fallback')
+			.setDesc('File timestamp used as the created date when no other date source matches')
+			.addDropdown(dropdown => dropdown
+				.addOption('mtime', 'Modification time')
+				.addOption('ctime', 'Creation time')
+				.setValue(this.plugin.settings.dateFallback)
+				.onChange(async (value) => {
+					this.plugin.settings.dateFallback = value as 'mtime' | 'ctime';
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Modified Date Properties')
+			.setDesc('Frontmatter properties used as the note\'s modified date, checked in order before the file\'s modification time (comma separated)')
+			.addText(text => text
+				.setPlaceholder('updated, modified')
+				.setValue(this.plugin.settings.modifiedDateProperties.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.modifiedDateProperties = parseListSetting(value);
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Filename Date Patterns')
+			.setDesc('Patterns matched against the file path, e.g. YYYY-MM-DD, YYYY/MM/DD/ for dated folders, YYYYMMDD (comma separated)')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD, YYYY/MM/DD/')
+				.setValue(this.plugin.settings.filenameDatePatterns.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.filenameDatePatterns = parseListSetting(value);
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Date Source Priority')
+			.setDesc('Order in which date sources are checked for a note\'s created date')
+			.addDropdown(dropdown => dropdown
+				.addOption('frontmatter,filename,file', 'Properties → Filename → File time')
+				.addOption('filename,frontmatter,file', 'Filename → Properties → File time')
+				.addOption('frontmatter,file', 'Properties → File time')
+				.addOption('filename,file', 'Filename → File time')
+				.addOption('file', 'File time only')
+				.setValue(this.plugin.settings.dateSourceOrder.join(','))
+				.onChange(async (value) => {
+					this.plugin.settings.dateSourceOrder = value.split(',') as DateSource[];
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
 				new Setting(containerEl)
 			.setName('Show File Count in Folders')
 			.setDesc('Display the number of markdown files and notes in each folder')
@@ -2860,21 +5891,213 @@ class NotesDatesSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Month Layout')
+			.setDesc('Compact cells show a note count; detailed cells list note titles (wide panes only)')
+			.addDropdown(dropdown => dropdown
+				.addOption('compact', 'Compact')
+				.addOption('detailed', 'Detailed')
+				.setValue(this.plugin.settings.monthLayout)
+				.onChange(async (value) => {
+					this.plugin.settings.monthLayout = value as MonthLayout;
+					await this.plugin.saveSettings();
+					this.plugin.refreshCalendarViews();
+				}));
+
+		new Setting(containerEl)
+			.setName('Titles per Day')
+			.setDesc('How many note titles a detailed month cell lists before "+k more"')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(this.plugin.settings.monthCellTitleCount.toString())
+				.onChange(async (value) => {
+					const count = parseInt(value, 10);
+					if (!isNaN(count) && count > 0) {
+						this.plugin.settings.monthCellTitleCount = count;
+						await this.plugin.saveSettings();
+						this.plugin.refreshCalendarViews();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Week Numbers')
+			.setDesc('Show a week number column in the month view, using ISO 8601 weeks or weeks that start on the first day of week above')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Hidden')
+				.addOption('iso', 'ISO 8601')
+				.addOption('locale', 'First Day of Week')
+				.setValue(this.plugin.settings.weekNumbers)
+				.onChange(async (value) => {
+					this.plugin.settings.weekNumbers = value as WeekNumberMode;
+					await this.plugin.saveSettings();
+					this.plugin.refreshCalendarViews();
+				}));
+
 		new Setting(containerEl)
 			.setName('Calendar View Type')
-			.setDesc('Choose the default calendar view type')
+			.setDesc('Choose the view type for newly opened calendars; each open calendar remembers its own')
 			.addDropdown(dropdown => dropdown
 				.addOption('month', 'Month View')
+				.addOption('week', 'Week View')
+				.addOption('day', 'Day View')
 				.addOption('year', 'Year View')
+				.addOption('decade', 'Decade View')
+				.addOption('agenda', 'Agenda')
+				.addOption('onThisDay', 'On This Day')
 				.setValue(this.plugin.settings.calendarViewType)
 				.onChange(async (value) => {
-					this.plugin.settings.calendarViewType = value as 'month' | 'year';
+					this.plugin.settings.calendarViewType = value as CalendarViewType;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('On This Day Reminder')
+			.setDesc('On startup, show a notice when notes from previous years were dated on today\'s date')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.onThisDayReminder)
+				.onChange(async (value) => {
+					this.plugin.settings.onThisDayReminder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Year View Layout')
+			.setDesc('Show the year as a list of notes per month or as an activity heatmap')
+			.addDropdown(dropdown => dropdown
+				.addOption('list', 'List')
+				.addOption('heatmap', 'Heatmap')
+				.setValue(this.plugin.settings.yearViewMode)
+				.onChange(async (value) => {
+					this.plugin.settings.yearViewMode = value as YearViewMode;
+					await this.plugin.saveSettings();
+					this.plugin.refreshCalendarViews();
+				}));
+
+		new Setting(containerEl)
+			.setName('Calendar Axis')
+			.setDesc('Place notes by their created date, their last modification, or show both with separate counts')
+			.addDropdown(dropdown => dropdown
+				.addOption('created', 'Created')
+				.addOption('modified', 'Modified')
+				.addOption('both', 'Both')
+				.setValue(this.plugin.settings.calendarAxis)
+				.onChange(async (value) => {
+					this.plugin.settings.calendarAxis = value as CalendarAxis;
+					await this.plugin.saveSettings();
+					this.plugin.refreshCalendarViews();
+				}));
+
+		new Setting(containerEl)
+			.setName('Track Edit History')
+			.setDesc('Remember every day a note is edited, so it shows up on each of those days instead of only its last modification')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trackEditHistory)
+				.onChange(async (value) => {
+					this.plugin.settings.trackEditHistory = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		new Setting(containerEl)
+			.setName('Edit History Retention')
+			.setDesc('Number of days of edit history to keep (0 = keep forever). Older entries are removed on startup and once a day')
+			.addText(text => text
+				.setPlaceholder('365')
+				.setValue(this.plugin.settings.editHistoryRetentionDays.toString())
+				.onChange(async (value) => {
+					const days = parseInt(value);
+					this.plugin.settings.editHistoryRetentionDays = isNaN(days) || days < 0 ? 0 : days;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Clear')
+				.setWarning()
+				.onClick(async () => {
+					this.plugin.activityLog.clear();
+					this.plugin.refreshDateSource();
+				}));
+
+		new Setting(containerEl)
+			.setName('Included File Types')
+			.setDesc('File extensions shown in the calendar, e.g. md, canvas, pdf, png, jpg (comma separated)')
+			.addText(text => text
+				.setPlaceholder('md, canvas, pdf')
+				.setValue(this.plugin.settings.includedFileTypes.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.includedFileTypes = parseListSetting(value).map(extension => extension.replace(/^\./, '').toLowerCase());
+					await this.plugin.saveSettings();
+					this.plugin.requestDateSourceRefresh();
+				}));
+
+		this.addFolderListSetting(containerEl, 'Included Folders',
+			'Only show files inside these folders in the calendar (comma separated; empty for the whole vault). Entries with * or ? are globs, e.g. Journal/**. Date badges and edit history are not affected',
+			'includedFolders');
+		this.addFolderListSetting(containerEl, 'Excluded Folders',
+			'Hide files inside these folders or matching these globs from the calendar, e.g. Templates, Archive, **/_attachments',
+			'excludedFolders');
+
+		this.addTagColorSettings(containerEl);
+		this.addSourceSettings(containerEl);
+		this.addSavedQuerySettings(containerEl);
+
+		new Setting(containerEl)
+			.setName('Show Date Mentions')
+			.setDesc('Also list notes on the days they link to (e.g. [[2024-05-03]]) or mention inline')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showMentions)
+				.onChange(async (value) => {
+					this.plugin.settings.showMentions = value;
+					await this.plugin.saveSettings();
+					if (value) {
+						this.plugin.requestMentionRescan();
+					} else {
+						this.plugin.refreshDateSource();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Inline Date Mention Pattern')
+			.setDesc('Regular expression for dates mentioned in note text; the first capture group is parsed with the date property formats. Leave empty to only use links')
+			.addText(text => text
+				.setPlaceholder('(?:📅|@)\\s?(\\d{4}-\\d{2}-\\d{2})')
+				.setValue(this.plugin.settings.mentionPattern)
+				.onChange(async (value) => {
+					this.plugin.settings.mentionPattern = value;
+					await this.plugin.saveSettings();
+					this.plugin.requestMentionRescan();
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview Length')
+			.setDesc('Maximum number of characters of the first line shown under each note (0 hides previews)')
+			.addText(text => text
+				.setPlaceholder('100')
+				.setValue(this.plugin.settings.previewLength.toString())
+				.onChange(async (value) => {
+					const length = parseInt(value, 10);
+					if (!isNaN(length) && length >= 0) {
+						this.plugin.settings.previewLength = length;
+						await this.plugin.saveSettings();
+						this.plugin.previews.clear();
+						this.plugin.refreshCalendarViews();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Skip Frontmatter and Callouts in Previews')
+			.setDesc('Take the preview from the first line of body text instead of the YAML frontmatter or a callout')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewSkipFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.previewSkipFrontmatter = value;
 					await this.plugin.saveSettings();
+					this.plugin.previews.clear();
+					this.plugin.refreshCalendarViews();
 				}));
 
 		new Setting(containerEl)
 			.setName('Calendar Sort Order')
-			.setDesc('Choose the default sort order for calendar notes')
+			.setDesc('Choose the sort order for newly opened calendars; each open calendar remembers its own')
 			.addDropdown(dropdown => dropdown
 				.addOption('desc', 'Newest First (Time Descending)')
 				.addOption('asc', 'Oldest First (Time Ascending)')
@@ -2884,6 +6107,49 @@ class NotesDatesSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('New Note Folder')
+			.setDesc('Folder for notes created from the calendar (empty for the vault root). Their day is written to the first Date Property, which places them on the Created axis, so a Date Property is required; on the Modified axis they follow Modified Date Properties or their modification time')
+			.addText(text => text
+				.setPlaceholder('Journal')
+				.setValue(this.plugin.settings.newNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.newNoteFolder = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('folder')
+				.setTooltip('Pick a folder')
+				.onClick(() => {
+					new FolderSuggestModal(this.app, async (folder) => {
+						this.plugin.settings.newNoteFolder = folder.path;
+						await this.plugin.saveSettings();
+						this.display();
+					}).open();
+				}));
+
+		new Setting(containerEl)
+			.setName('New Note File Name')
+			.setDesc('moment.js pattern for the file name of new notes, e.g. YYYY-MM-DD or YYYY/MM/YYYY-MM-DD dddd')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.newNoteFileNamePattern)
+				.setValue(this.plugin.settings.newNoteFileNamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.newNoteFileNamePattern = value.trim() || DEFAULT_SETTINGS.newNoteFileNamePattern;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('New Note Template')
+			.setDesc('Path of a note used as template. {{date}}, {{time}}, {{weekday}} and {{title}} are replaced; {{date:FORMAT}} takes a moment.js format')
+			.addText(text => text
+				.setPlaceholder('Templates/Daily')
+				.setValue(this.plugin.settings.newNoteTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.newNoteTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Language')
 			.setDesc('Choose the interface language')
@@ -2936,6 +6202,323 @@ class NotesDatesSettingTab extends PluginSettingTab {
 				}));
 
 			}
+
+	// One row per tag with its dot color in month cells
+	addTagColorSettings(containerEl: HTMLElement) {
+		const save = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.refreshCalendarViews();
+		};
+
+		new Setting(containerEl)
+			.setName('Tag Colors')
+			.setDesc('Month cells show a colored dot on days with notes carrying these tags; nested tags count for their parent')
+			.addButton(button => button
+				.setButtonText('Add tag')
+				.onClick(async () => {
+					this.plugin.settings.tagColors = [...this.plugin.settings.tagColors, { tag: '', color: '#4a90e2' }];
+					await save();
+					this.display();
+				}));
+
+		this.plugin.settings.tagColors.forEach((tagColor, index) => {
+			new Setting(containerEl)
+				.setClass('tag-color-setting')
+				.addText(text => text
+					.setPlaceholder('#project')
+					.setValue(tagColor.tag)
+					.onChange(async (value) => {
+						tagColor.tag = value.trim();
+						await save();
+					}))
+				.addColorPicker(picker => picker
+					.setValue(tagColor.color)
+					.onChange(async (value) => {
+						tagColor.color = value;
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						this.plugin.settings.tagColors = this.plugin.settings.tagColors.filter((_, i) => i !== index);
+						await save();
+						this.display();
+					}));
+		});
+	}
+
+	// One row per calendar source: name, what it matches and its color
+	addSourceSettings(containerEl: HTMLElement) {
+		const save = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.refreshCalendarViews();
+		};
+		const placeholders: { [kind in CalendarSourceKind]: string } = {
+			folder: 'Journal or Work/**/Meetings',
+			tag: '#meeting',
+			property: 'type=review',
+			filename: '*standup*'
+		};
+
+		new Setting(containerEl)
+			.setName('Calendar Sources')
+			.setDesc('Named groups of notes shown with their own color and legend entry. A source matches a folder (path or glob), a tag, a frontmatter property (key=value, or just key) or a file name glob')
+			.addButton(button => button
+				.setButtonText('Add source')
+				.onClick(async () => {
+					this.plugin.settings.sources = [...this.plugin.settings.sources,
+						{ id: createSourceId(), name: `Source ${this.plugin.settings.sources.length + 1}`, color: '#e2844a', kind: 'folder', match: '' }];
+					await save();
+					this.display();
+				}));
+
+		this.plugin.settings.sources.forEach((source, index) => {
+			let matchText: TextComponent | null = null;
+			new Setting(containerEl)
+				.setClass('calendar-source-setting')
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(source.name)
+					.onChange(async (value) => {
+						source.name = value.trim();
+						await save();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('folder', 'Folder')
+					.addOption('tag', 'Tag')
+					.addOption('property', 'Property')
+					.addOption('filename', 'File name')
+					.setValue(source.kind)
+					.onChange(async (value: CalendarSourceKind) => {
+						source.kind = value;
+						matchText?.setPlaceholder(placeholders[value]);
+						await save();
+					}))
+				.addText(text => {
+					matchText = text;
+					text
+						.setPlaceholder(placeholders[source.kind])
+						.setValue(source.match)
+						.onChange(async (value) => {
+							source.match = value;
+							await save();
+						});
+				})
+				.addColorPicker(picker => picker
+					.setValue(source.color)
+					.onChange(async (value) => {
+						source.color = value;
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						this.plugin.settings.sources = this.plugin.settings.sources.filter((_, i) => i !== index);
+						await save();
+						this.display();
+					}));
+		});
+	}
+
+	// Saved calendar queries, listed in the query bar of every calendar
+	addSavedQuerySettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Saved Queries')
+			.setDesc('Named queries to pick in the calendar query bar, e.g. path:"Work/" AND (tag:#meeting OR prop:type=review) AND -path:Templates. Fields: path, tag, prop, name, ext; combine with AND, OR, parentheses and - to exclude')
+			.addButton(button => button
+				.setButtonText('Add query')
+				.onClick(async () => {
+					this.plugin.settings.savedQueries = [...this.plugin.settings.savedQueries,
+						{ name: `Query ${this.plugin.settings.savedQueries.length + 1}`, query: '' }];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		this.plugin.settings.savedQueries.forEach((saved, index) => {
+			const setting = new Setting(containerEl).setClass('saved-query-setting');
+			setting
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(saved.name)
+					.onChange(async (value) => {
+						saved.name = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => {
+					text.inputEl.addClass('saved-query-input');
+					const validate = () => {
+						let error: QuerySyntaxError | null = null;
+						try {
+							parseQuery(saved.query);
+						} catch (e) {
+							if (!(e instanceof QuerySyntaxError)) throw e;
+							error = e;
+						}
+						text.inputEl.toggleClass('is-invalid', error !== null);
+						setting.setDesc(error ? formatQueryError(error, this.plugin.settings.language) : '');
+					};
+					text
+						.setPlaceholder('tag:#meeting -path:Templates')
+						.setValue(saved.query)
+						.onChange(async (value) => {
+							saved.query = value;
+							validate();
+							await this.plugin.saveSettings();
+						});
+					validate();
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						this.plugin.settings.savedQueries = this.plugin.settings.savedQueries.filter((_, i) => i !== index);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+	}
+
+	// Comma separated folder/glob list with a folder picker that appends to it
+	addFolderListSetting(containerEl: HTMLElement, name: string, desc: string, key: 'includedFolders' | 'excludedFolders') {
+		let textComponent: TextComponent | null = null;
+		const save = async (folders: string[]) => {
+			this.plugin.settings[key] = folders;
+			await this.plugin.saveSettings();
+			this.plugin.requestDateSourceRefresh();
+		};
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				textComponent = text;
+				text
+					.setPlaceholder('Templates, **/_attachments')
+					.setValue(this.plugin.settings[key].join(', '))
+					.onChange(async (value) => {
+						await save(parseListSetting(value));
+					});
+			})
+			.addExtraButton(button => button
+				.setIcon('folder-plus')
+				.setTooltip('Pick a folder')
+				.onClick(() => {
+					new FolderSuggestModal(this.app, async (folder) => {
+						const folders = [...this.plugin.settings[key]];
+						if (!folders.includes(folder.path)) {
+							folders.push(folder.path);
+						}
+						textComponent?.setValue(folders.join(', '));
+						await save(folders);
+					}).open();
+				}));
+	}
+}
+
+// Pick a folder of the vault by fuzzy search
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private onChoose: (folder: TFolder) => void;
+
+	constructor(app: App, onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.onChoose = onChoose;
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder && !file.isRoot());
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
+
+// Ask for the name a calendar query is saved under
+class QueryNameModal extends Modal {
+	private language: 'en' | 'zh';
+	private name: string;
+	private onSave: (name: string) => void;
+
+	constructor(app: App, language: 'en' | 'zh', name: string, onSave: (name: string) => void) {
+		super(app);
+		this.language = language;
+		this.name = name;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: getLocalizedText('saveQueryTitle', this.language) });
+
+		const submit = () => {
+			const name = this.name.trim();
+			if (!name) return;
+			this.close();
+			this.onSave(name);
+		};
+
+		new Setting(contentEl)
+			.setName(getLocalizedText('saveQueryName', this.language))
+			.addText(text => {
+				text.setValue(this.name).onChange(value => this.name = value);
+				text.inputEl.addEventListener('keydown', (e) => {
+					if (e.key === 'Enter') {
+						e.preventDefault();
+						submit();
+					}
+				});
+				setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(getLocalizedText('save', this.language))
+				.setCta()
+				.onClick(submit));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Pick a tag of the vault by fuzzy search; parents of nested tags are offered too
+class TagSuggestModal extends FuzzySuggestModal<string> {
+	private onChoose: (tag: string) => void;
+
+	constructor(app: App, language: 'en' | 'zh', onChoose: (tag: string) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder(getLocalizedText('chooseTagPlaceholder', language));
+	}
+
+	getItems(): string[] {
+		const tags = new Set<string>();
+		this.app.vault.getMarkdownFiles().forEach(file => {
+			getFileTags(this.app, file).forEach(tag => {
+				const parts = tag.toLowerCase().split('/');
+				for (let i = 1; i <= parts.length; i++) {
+					tags.add(parts.slice(0, i).join('/'));
+				}
+			});
+		});
+		return Array.from(tags).sort((a, b) => a.localeCompare(b));
+	}
+
+	getItemText(tag: string): string {
+		return tag;
+	}
+
+	onChooseItem(tag: string): void {
+		this.onChoose(tag);
+	}
 }
 
 // Export the plugin class for CommonJS
@@ -0,0 +1,143 @@
+import { QueryFileInfo, QueryNode, QuerySyntaxError, evaluateQuery, parseQuery, tokenizeQuery } from './query';
+
+const term = (field: string, value: string) => ({ type: 'term', field, value });
+
+function parseError(query: string): QuerySyntaxError {
+	try {
+		parseQuery(query);
+	} catch (error) {
+		return error as QuerySyntaxError;
+	}
+	throw new Error(`Expected "${query}" to be rejected`);
+}
+
+function matches(query: string, info: QueryFileInfo): boolean {
+	return evaluateQuery(parseQuery(query) as QueryNode, info);
+}
+
+const note: QueryFileInfo = {
+	path: 'Work/Meetings/Weekly sync.md',
+	basename: 'Weekly sync',
+	extension: 'md',
+	tags: ['#meeting', '#project/alpha'],
+	frontmatter: { type: ['Review', 'planning'], status: 'Done', count: 3 }
+};
+
+describe('parseQuery', () => {
+	test('an empty query has no tree', () => {
+		expect(parseQuery('')).toBeNull();
+		expect(parseQuery('   ')).toBeNull();
+	});
+
+	test('AND binds tighter than OR', () => {
+		expect(parseQuery('tag:a OR tag:b AND tag:c')).toEqual({
+			type: 'or',
+			left: term('tag', 'a'),
+			right: { type: 'and', left: term('tag', 'b'), right: term('tag', 'c') }
+		});
+	});
+
+	test('terms next to each other are joined by AND', () => {
+		expect(parseQuery('path:Work tag:a')).toEqual(parseQuery('path:Work AND tag:a'));
+		expect(parseQuery('tag:a OR tag:b tag:c')).toEqual(parseQuery('tag:a OR (tag:b AND tag:c)'));
+	});
+
+	test('- and NOT negate the next term or group', () => {
+		expect(parseQuery('-path:Templates')).toEqual({ type: 'not', operand: term('path', 'Templates') });
+		expect(parseQuery('NOT path:Templates')).toEqual(parseQuery('-path:Templates'));
+		expect(parseQuery('NOT tag:a tag:b')).toEqual({
+			type: 'and',
+			left: { type: 'not', operand: term('tag', 'a') },
+			right: term('tag', 'b')
+		});
+		expect(parseQuery('-(tag:a OR tag:b)')).toEqual({
+			type: 'not',
+			operand: { type: 'or', left: term('tag', 'a'), right: term('tag', 'b') }
+		});
+	});
+
+	test('quoted values keep spaces, parentheses and operator words', () => {
+		expect(parseQuery('path:"My Notes/(old)"')).toEqual(term('path', 'My Notes/(old)'));
+		expect(parseQuery('"AND"')).toEqual(term('text', 'AND'));
+		expect(parseQuery('"weekly sync"')).toEqual(term('text', 'weekly sync'));
+	});
+
+	test('field names are case-insensitive', () => {
+		expect(parseQuery('TAG:a')).toEqual(term('tag', 'a'));
+	});
+
+	test('nested parentheses', () => {
+		expect(parseQuery('((tag:a OR (tag:b -tag:c)) path:Work)')).toEqual({
+			type: 'and',
+			left: {
+				type: 'or',
+				left: term('tag', 'a'),
+				right: { type: 'and', left: term('tag', 'b'), right: { type: 'not', operand: term('tag', 'c') } }
+			},
+			right: term('path', 'Work')
+		});
+	});
+});
+
+describe('query errors', () => {
+	test.each([
+		['path:"Work', 'queryErrorUnclosedQuote', 5, ''],
+		['foo:bar', 'queryErrorUnknownField', 0, 'foo'],
+		['tag:a tag:', 'queryErrorEmptyValue', 6, 'tag:'],
+		['tag:a ""', 'queryErrorEmptyValue', 6, '""'],
+		['tag:a AND', 'queryErrorUnexpectedEnd', 9, ''],
+		['tag:a (tag:b', 'queryErrorUnclosedParen', 6, ''],
+		['tag:a )', 'queryErrorUnexpectedToken', 6, ')'],
+		['OR tag:a', 'queryErrorUnexpectedToken', 0, 'OR']
+	])('%s', (query, key, position, token) => {
+		const error = parseError(query);
+		expect(error).toBeInstanceOf(QuerySyntaxError);
+		expect(error.key).toBe(key);
+		expect(error.position).toBe(position);
+		expect(error.token).toBe(token);
+	});
+});
+
+describe('tokenizeQuery', () => {
+	test('records where each token starts', () => {
+		expect(tokenizeQuery('(tag:a OR -b)').map(token => [token.type, token.position])).toEqual([
+			['open', 0], ['term', 1], ['or', 7], ['not', 10], ['term', 11], ['close', 12]
+		]);
+	});
+});
+
+describe('evaluateQuery', () => {
+	test('path, name, ext and bare words', () => {
+		expect(matches('path:work/meetings', note)).toBe(true);
+		expect(matches('name:sync', note)).toBe(true);
+		expect(matches('name:Meetings', note)).toBe(false);
+		expect(matches('ext:.md', note)).toBe(true);
+		expect(matches('ext:pdf', note)).toBe(false);
+		expect(matches('weekly', note)).toBe(true);
+	});
+
+	test('tags match nested tags below them', () => {
+		expect(matches('tag:#project', note)).toBe(true);
+		expect(matches('tag:project/alpha', note)).toBe(true);
+		expect(matches('tag:proj', note)).toBe(false);
+	});
+
+	test('prop:key=value on list and scalar values', () => {
+		expect(matches('prop:type=review', note)).toBe(true);
+		expect(matches('prop:type=Planning', note)).toBe(true);
+		expect(matches('prop:type=draft', note)).toBe(false);
+		expect(matches('prop:status=done', note)).toBe(true);
+		expect(matches('prop:status=open', note)).toBe(false);
+		expect(matches('prop:count=3', note)).toBe(true);
+		expect(matches('prop:status', note)).toBe(true);
+		expect(matches('prop:missing', note)).toBe(false);
+		expect(matches('prop:status', { ...note, frontmatter: null })).toBe(false);
+	});
+
+	test('operators combine terms', () => {
+		expect(matches('path:Work AND (tag:#meeting OR prop:type=draft) AND -path:Templates', note)).toBe(true);
+		expect(matches('tag:#todo OR tag:#meeting ext:pdf', note)).toBe(false);
+		expect(matches('(tag:#todo OR tag:#meeting) -ext:pdf', note)).toBe(true);
+		expect(matches('NOT (tag:#meeting)', note)).toBe(false);
+	});
+});
@@ -0,0 +1,243 @@
+/*
+ * Notes-Calendar
+ * Copyright (c) 2024 Chinaiclab (https://github.com/chinaiclab)
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// Calendar query language and the tag and property matching it shares with the rest of the plugin.
+// Nothing here depends on Obsidian, so it can be tested on its own.
+
+export function normalizeTag(tag: string): string {
+	const trimmed = tag.trim().toLowerCase();
+	return trimmed.startsWith('#') ? trimmed : `#${trimmed}`;
+}
+
+// Nested tags: a filter on #project also matches #project/x
+export function tagMatches(fileTag: string, filterTag: string): boolean {
+	const tag = fileTag.toLowerCase();
+	const filter = normalizeTag(filterTag);
+	return tag === filter || tag.startsWith(`${filter}/`);
+}
+
+// `key=value` matches a frontmatter value (or any item of a list) ignoring case; a bare `key` only needs the property to be set
+export function matchesPropertyFilter(frontmatter: { [key: string]: any } | null, filter: string): boolean {
+	const separator = filter.indexOf('=');
+	const key = (separator === -1 ? filter : filter.slice(0, separator)).trim();
+	const value = frontmatter ? frontmatter[key] : undefined;
+	if (value === undefined || value === null) return false;
+	if (separator === -1) return true;
+
+	const expected = filter.slice(separator + 1).trim().toLowerCase();
+	const values: unknown[] = Array.isArray(value) ? value : [value];
+	return values.some(item => String(item).toLowerCase() === expected);
+}
+
+// Calendar queries, e.g. `path:"Work/" AND (tag:#meeting OR prop:type=review) AND -path:Templates`.
+// Terms are `field:value` or a bare word matched against title and path; terms next to each other are
+// joined by AND, `-` or NOT negates, and values with spaces are quoted.
+export type QueryField = 'path' | 'tag' | 'prop' | 'name' | 'ext' | 'text';
+
+export const QUERY_FIELDS: QueryField[] = ['path', 'tag', 'prop', 'name', 'ext'];
+
+export type QueryNode =
+	{ type: 'and' | 'or'; left: QueryNode; right: QueryNode } |
+	{ type: 'not'; operand: QueryNode } |
+	{ type: 'term'; field: QueryField; value: string };
+
+export interface QueryToken {
+	type: 'and' | 'or' | 'not' | 'open' | 'close' | 'term';
+	text: string;
+	position: number;
+	field?: QueryField;
+	value?: string;
+}
+
+// `key` is a localization key, shown with the offending `token` and its position in the query
+export class QuerySyntaxError extends Error {
+	key: string;
+	position: number;
+	token: string;
+
+	constructor(key: string, position: number, token: string = '') {
+		super(`${key} at ${position}${token ? `: ${token}` : ''}`);
+		this.name = 'QuerySyntaxError';
+		this.key = key;
+		this.position = position;
+		this.token = token;
+	}
+}
+
+export function tokenizeQuery(query: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	let i = 0;
+	while (i < query.length) {
+		const char = query[i];
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (char === '(' || char === ')') {
+			tokens.push({ type: char === '(' ? 'open' : 'close', text: char, position: i });
+			i++;
+			continue;
+		}
+		// A leading '-' negates the term or group right after it
+		if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+			tokens.push({ type: 'not', text: char, position: i });
+			i++;
+			continue;
+		}
+
+		// A word runs to the next space or parenthesis; quoted parts may contain both
+		const start = i;
+		let text = '';
+		let quoted = false;
+		while (i < query.length && !/[\s()]/.test(query[i])) {
+			if (query[i] === '"') {
+				const end = query.indexOf('"', i + 1);
+				if (end === -1) {
+					throw new QuerySyntaxError('queryErrorUnclosedQuote', i);
+				}
+				text += query.slice(i + 1, end);
+				quoted = true;
+				i = end + 1;
+			} else {
+				text += query[i];
+				i++;
+			}
+		}
+		const raw = query.slice(start, i);
+
+		if (!quoted && (raw === 'AND' || raw === 'OR' || raw === 'NOT')) {
+			tokens.push({ type: raw.toLowerCase() as 'and' | 'or' | 'not', text: raw, position: start });
+			continue;
+		}
+
+		const colon = raw.indexOf(':');
+		const quote = raw.indexOf('"');
+		if (colon > 0 && (quote === -1 || colon < quote)) {
+			const field = raw.slice(0, colon).toLowerCase() as QueryField;
+			if (!QUERY_FIELDS.includes(field)) {
+				throw new QuerySyntaxError('queryErrorUnknownField', start, raw.slice(0, colon));
+			}
+			// `text` is `raw` without quotes, and there are none before the colon
+			const value = text.slice(colon + 1);
+			if (!value) {
+				throw new QuerySyntaxError('queryErrorEmptyValue', start, raw);
+			}
+			tokens.push({ type: 'term', text: raw, position: start, field, value });
+		} else {
+			if (!text) {
+				throw new QuerySyntaxError('queryErrorEmptyValue', start, raw);
+			}
+			tokens.push({ type: 'term', text: raw, position: start, field: 'text', value: text });
+		}
+	}
+	return tokens;
+}
+
+// Parse a query into a tree; an empty query gives null. Throws a QuerySyntaxError when the query is invalid.
+export function parseQuery(query: string): QueryNode | null {
+	const tokens = tokenizeQuery(query);
+	if (tokens.length === 0) return null;
+
+	let index = 0;
+	const peek = (): QueryToken | undefined => tokens[index];
+
+	const parseOr = (): QueryNode => {
+		let node = parseAnd();
+		while (peek()?.type === 'or') {
+			index++;
+			node = { type: 'or', left: node, right: parseAnd() };
+		}
+		return node;
+	};
+
+	const parseAnd = (): QueryNode => {
+		let node = parseUnary();
+		let next = peek();
+		while (next && next.type !== 'or' && next.type !== 'close') {
+			if (next.type === 'and') {
+				index++;
+			}
+			node = { type: 'and', left: node, right: parseUnary() };
+			next = peek();
+		}
+		return node;
+	};
+
+	const parseUnary = (): QueryNode => {
+		const token = peek();
+		if (!token) {
+			throw new QuerySyntaxError('queryErrorUnexpectedEnd', query.length);
+		}
+		switch (token.type) {
+			case 'not':
+				index++;
+				return { type: 'not', operand: parseUnary() };
+			case 'open': {
+				index++;
+				const node = parseOr();
+				if (peek()?.type !== 'close') {
+					throw new QuerySyntaxError('queryErrorUnclosedParen', token.position);
+				}
+				index++;
+				return node;
+			}
+			case 'term':
+				index++;
+				return { type: 'term', field: token.field as QueryField, value: token.value as string };
+			default:
+				throw new QuerySyntaxError('queryErrorUnexpectedToken', token.position, token.text);
+		}
+	};
+
+	const node = parseOr();
+	const rest = peek();
+	if (rest) {
+		throw new QuerySyntaxError('queryErrorUnexpectedToken', rest.position, rest.text);
+	}
+	return node;
+}
+
+// What a query can look at; kept apart from TFile so queries can be evaluated without a vault
+export interface QueryFileInfo {
+	path: string;
+	basename: string;
+	extension: string;
+	tags: string[];
+	frontmatter: { [key: string]: any } | null;
+}
+
+export function evaluateQuery(node: QueryNode, info: QueryFileInfo): boolean {
+	switch (node.type) {
+		case 'and':
+			return evaluateQuery(node.left, info) && evaluateQuery(node.right, info);
+		case 'or':
+			return evaluateQuery(node.left, info) || evaluateQuery(node.right, info);
+		case 'not':
+			return !evaluateQuery(node.operand, info);
+		case 'term':
+			return matchesQueryTerm(node.field, node.value, info);
+	}
+}
+
+export function matchesQueryTerm(field: QueryField, value: string, info: QueryFileInfo): boolean {
+	const needle = value.toLowerCase();
+	switch (field) {
+		case 'path':
+			return info.path.toLowerCase().includes(needle);
+		case 'name':
+			return info.basename.toLowerCase().includes(needle);
+		case 'ext':
+			return info.extension.toLowerCase() === needle.replace(/^\./, '');
+		case 'tag':
+			return info.tags.some(tag => tagMatches(tag, value));
+		case 'prop':
+			return matchesPropertyFilter(info.frontmatter, value);
+		case 'text':
+			return info.basename.toLowerCase().includes(needle) || info.path.toLowerCase().includes(needle);
+	}
+}